@@ -1,258 +1,581 @@
-import React, { useEffect, useState } from "react";
-import MapView from "./pixi/MapView";
-
-/* ============ Types & constants ============ */
-
-type Resources = { coin: number; lumber: number; stone: number; knowledge: number; magic: number };
-type Biome = "meadow" | "forest" | "hill" | "marsh" | "thicket";
-type Structure = {
-  id: string;
-  level: number;
-  icon: string;
-  w: number;
-  h: number;
-  anchor: boolean;      // only true on the top-left tile of the footprint
-  origin: number;       // index of the top-left tile (so we can remove the whole bldg from any tile)
-};
-type Tile = {
-  terrain: "grass" | "water" | "road" | "bridge";
-  biome: Biome;
-  structure?: Structure;
-};
-type Building = {
-  id: string; name: string; icon: string; tier: 1 | 2 | 3;
-  w: number; h: number;
-  cost: Partial<Resources>; happiness?: number; housing?: number;
-};
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import MapView, { MapViewHandle } from "./pixi/MapView";
+import type { Building, Resources, Tier, Tile } from "./game/types";
+import { randomSeed, seedFromURL, seedToURL } from "./game/rng";
+import { freshGrid } from "./game/terrain";
+import {
+  SaveGame, serializeSave, exportSave, importSave, loadAutosave, writeAutosave, downloadJSON,
+  listSlots, saveSlot, loadSlot, deleteSlot,
+} from "./game/save";
+import { CATALOG, CATALOG_BY_ID } from "./game/catalog";
+import { emptyResources, canAfford, pay, gain, formatChange } from "./game/resources";
+import { TICK_MS, SPEEDS, computeEconomy, runTick } from "./game/economy";
+import { computeHappiness, happinessMap, happinessMultiplier } from "./game/happiness";
+import { tierProgress, minWordLength, unlockedAt } from "./game/tiers";
+import { scoreWord, letterValue } from "./game/scoring";
+import { HINTS, HintKind, hintCost, playableWords, bestWord, revealHint } from "./game/hints";
+import { Dictionary, WordListId, WORD_LISTS, hasWord, loadDictionary, savedWordList, saveWordList } from "./game/dictionary";
+import { DEFAULT_RACK_SIZE, rackSize, swapCost, drawTiles, tilesLeftInBag, countChars, canFormFromRack, tilesForWord, shuffleRack } from "./game/rack";
+import { idxToXY, footprintOf } from "./game/grid";
+import { checkPlacement, adjacencyBonus, placeBuilding } from "./game/placement";
+import { editRoad, planRoadLine, planClearArea, ROAD_COST, bridgeCost } from "./game/roads";
+import { SPELLS, SPELLS_BY_ID, SpellId, castSpell } from "./game/spells";
+import { RESEARCH, ResearchId, perksOf, researchBlocker, isAvailable } from "./game/research";
+import {
+  Calendar, SEASON_TICKS, FEAST_COST, newCalendar, seasonOf, dateLabel, advanceCalendar, threatenedRoads, leveeCost, buildLevees, fundFestival, eventHappiness,
+} from "./game/seasons";
+import { QUESTS, QuestState, emptyQuestState, finishedQuests, isOpen, questProgress, recordEvent } from "./game/quests";
+import {
+  CHALLENGE_TURNS, TICKS_PER_TURN, ChallengeAction, ChallengeScore, LeaderboardEntry, Replay, REPLAY_VERSION, challengeDate, startChallenge, applyAction,
+  challengeScore, scoreLines, encodeActions, importReplay, verifyReplay, loadLeaderboard, addToLeaderboard, savedPlayerName, savePlayerName,
+} from "./game/challenge";
+import { computeNetwork, completeBridges } from "./game/network";
+import { MAX_LEVEL, levelScale, scaleAll, canUpgrade, upgradeCost, upgradeAt } from "./game/upgrades";
+import { Snapshot, History, emptyHistory, pushCommand, stepBack, stepForward, shiftRes } from "./game/history";
+
+/* ============ Constants ============ */
 
 const GRID_SIZE = 54;
-const DEFAULT_RACK_SIZE = 8;
-const WORD_LIST_PATH = "/words-enable.txt"; // make sure this exists in /public
-const VOWELS = new Set(["A","E","I","O","U"]);
-
-const CATALOG: Building[] = [
-  { id: "cottage", name: "Cottage", icon: "cottage", tier: 1, w: 1, h: 1, cost: { coin: 10, lumber: 8 }, happiness: 1, housing: 3 },
-  { id: "sawmill", name: "Sawmill", icon: "sawmill", tier: 1, w: 2, h: 2, cost: { coin: 25, lumber: 12, stone: 5 } },
-  { id: "quarry",  name: "Quarry",  icon: "quarry",  tier: 1, w: 2, h: 2, cost: { coin: 25, stone: 15 } },
-  { id: "market",  name: "Market",  icon: "market",  tier: 2, w: 3, h: 2, cost: { coin: 60, stone: 10 } },
-  { id: "library", name: "Library", icon: "library", tier: 2, w: 2, h: 2, cost: { coin: 50, lumber: 15, stone: 10 } },
-  { id: "pier",    name: "Pier",    icon: "pier",    tier: 2, w: 2, h: 1, cost: { coin: 40, lumber: 10 } },
-];
+
+/* Non-building tools: road painting, the two-click line tool, area bulldoze and targeted spells */
+type Tool = Building | { id:"__road__" | "__line__" | "__clear__" } | { id:"__spell__"; spell:SpellId };
+const isAreaTool = (t:Tool | null) => t?.id==="__line__" || t?.id==="__clear__";
+
+/* A daily challenge in progress: every action goes through game/challenge.ts and into `log` */
+type DailyRun = { date:string; list:WordListId; log:ChallengeAction[]; result:{ replay:Replay; score:ChallengeScore } | null };
+
 
 /* ============ Helpers ============ */
 
-function makeRNG(seedNum: number) { let s = seedNum >>> 0; return () => ((s = (s * 1664525 + 1013904223) >>> 0), s / 4294967296); }
-function hashSeed(seed: string){ let h = 2166136261 >>> 0; for (let i=0;i<seed.length;i++){ h^=seed.charCodeAt(i); h=Math.imul(h,16777619);} return h>>>0; }
-function xyToIdx(x:number,y:number,size:number){ return y*size + x; }
-function idxToXY(idx:number,size:number){ return { x: idx % size, y: Math.floor(idx/size) }; }
-
-function generateTerrain(size:number, seedStr:string): Tile[] {
-  const tiles: Tile[] = Array(size*size).fill(0).map(()=>({ terrain:"grass", biome:"meadow" as Biome }));
-  const rnd = makeRNG(hashSeed(seedStr));
-  // River
-  let y = Math.floor(size/3 + rnd()*size/3);
-  for (let x=0;x<size;x++){
-    const width = 1 + (rnd()<0.45?0:1);
-    for (let dy=-width; dy<=width; dy++){ const yy=y+dy; if(yy>=0&&yy<size) tiles[xyToIdx(x,yy,size)].terrain="water"; }
-    if (rnd()<0.08){
-      const r=1+Math.floor(rnd()*2);
-      for (let dx=-r;dx<=r;dx++) for (let dy=-r;dy<=r;dy++){
-        const xx=x+dx,yy=y+dy; if(xx>=0&&yy>=0&&xx<size&&yy<size) tiles[xyToIdx(xx,yy,size)].terrain="water";
-      }
-    }
-    y += [-1,0,1][Math.floor(rnd()*3)];
-    y = Math.max(1, Math.min(size-2, y));
-  }
-  // Biome patches
-  const patch=(type:Biome,attempts:number,radius:number,prob=0.8)=>{
-    for(let i=0;i<attempts;i++){
-      const cx=Math.floor(rnd()*size), cy=Math.floor(rnd()*size);
-      for(let dx=-radius;dx<=radius;dx++) for(let dy=-radius;dy<=radius;dy++){
-        const xx=cx+dx, yy=cy+dy; if(xx<0||yy<0||xx>=size||yy>=size) continue;
-        const ii=xyToIdx(xx,yy,size); if(tiles[ii].terrain==="water") continue;
-        if(Math.hypot(dx,dy)<=radius && rnd()<prob) tiles[ii].biome=type;
-      }
-    }
-  };
-  patch("forest",12,2); patch("hill",10,2); patch("thicket",5,2,0.9);
-  // Marsh near water
-  for (let i=0;i<tiles.length;i++){
-    if (tiles[i].terrain==="water") continue;
-    const {x,y}=idxToXY(i,size);
-    const near=[[1,0],[-1,0],[0,1],[0,-1]].some(([dx,dy])=>{
-      const xx=x+dx,yy=y+dy; if(xx<0||yy<0||xx>=size||yy>=size) return false;
-      return tiles[xyToIdx(xx,yy,size)].terrain==="water";
-    });
-    if (near && tiles[i].biome==="meadow") tiles[i].biome="marsh";
-  }
-  return tiles;
-}
 
-function countChars(str:string){ const m:Record<string,number>={}; for(const c of str) m[c]=(m[c]||0)+1; return m; }
-function canFormFromRack(word:string, rack:string[]){ const need=countChars(word), have=countChars(rack.join("")); return Object.keys(need).every(k=>(have[k]||0)>=need[k]); }
-function weightedRandomLetter(){ const bag="EEEEEEEEETTAAOOIINNSHHRRDDLCCUMWFGYPBVKJXZQ"; return bag[Math.floor(Math.random()*bag.length)]||"E"; }
-function generateRack(n:number){ const r:string[]=[]; while(r.length<n) r.push(weightedRandomLetter()); return r; }
-
-/* Resources helpers */
-function canAfford(res:Resources, cost:Partial<Resources>){ for (const k of Object.keys(cost) as (keyof Resources)[]) if ((res[k]||0) < (cost[k]||0)) return false; return true; }
-function pay(res:Resources, cost:Partial<Resources>):Resources {
-  const out = { ...res };
-  (Object.keys(cost) as (keyof Resources)[]).forEach(k=> out[k] = Math.max(0, out[k] - (cost[k]||0)));
-  return out;
-}
+/* Opening rack of a world; the same seed always deals the same tiles (game/rack.ts) */
+function freshRack(seed:string){ const { letters, next } = drawTiles(seed, 0, DEFAULT_RACK_SIZE); return { rack:letters, rackDraws:next }; }
+
+const newWorldGrid = (seed:string) => freshGrid(seed, GRID_SIZE);
 
-/* Load dictionary (no FALLBACK symbol anywhere) */
-async function loadWords(): Promise<Set<string>> {
-  try {
-    const res = await fetch(WORD_LIST_PATH, { cache: "no-store" });
-    if (!res.ok) throw new Error("No words file");
-    const text = await res.text();
-    const words = text.split(/\r?\n/).map(w=>w.trim().toUpperCase()).filter(w=>/^[A-Z]{3,}$/.test(w));
-    return new Set(words);
-  } catch {
-    // Inline fallback to avoid undefined globals
-    return new Set(["STONE","MAGIC","GARDEN","BRIDGE","LIBRARY","RIVER","MARKET","COTTAGE"]);
+/* URL seed wins over the autosave unless they're the same world */
+function initialWorld(): { seed:string; save:SaveGame|null; notice:string|null } {
+  let save:SaveGame|null = null, notice:string|null = null;
+  try { save = loadAutosave(); }
+  catch (e) { notice = `Your autosave couldn't be loaded and a new world was started (${(e as Error).message}).`; }
+  const urlSeed = seedFromURL();
+  if (urlSeed && urlSeed !== save?.seed){
+    if (!save) return { seed:urlSeed, save:null, notice };
+    /* the shared world replaces the autosave, so keep the player's city in a slot first */
+    const slot = `Before "${urlSeed}" (${save.seed})`;
+    try { saveSlot(slot, save); }
+    catch { return { seed:save.seed, save, notice:`Couldn't make room to open the shared world "${urlSeed}", so your city was kept. Free some saves and reload the link.` }; }
+    return { seed:urlSeed, save:null, notice:`Opened the shared world "${urlSeed}". Your previous city is in the save slot "${slot}".` };
   }
+  return { seed: save?.seed ?? urlSeed ?? randomSeed(), save, notice };
 }
 
 /* ============ App ============ */
 
 export default function App(){
-  const [grid, setGrid] = useState<Tile[]>(()=> generateTerrain(GRID_SIZE, new Date().toISOString()));
-  const [rack, setRack] = useState<string[]>(()=> generateRack(DEFAULT_RACK_SIZE));
+  const [{ seed:initialSeed, save:initial, notice }] = useState(initialWorld);
+  const [seed, setSeed] = useState(initialSeed);
+  const [grid, setGrid] = useState<Tile[]>(()=> initial?.grid ?? newWorldGrid(seed));
+  const [rack, setRack] = useState<string[]>(()=> initial?.rack ?? freshRack(seed).rack);
+  const [rackDraws, setRackDraws] = useState(()=> initial?.rackDraws ?? freshRack(seed).rackDraws);
   const [typed, setTyped] = useState("");
-  const [dict, setDict] = useState<Set<string>>(new Set(["STONE","MAGIC","GARDEN","BRIDGE","LIBRARY","RIVER","MARKET","COTTAGE"]));
-  const [msg, setMsg] = useState("Cozy build: pan (drag), zoom (wheel). Roads first; build on land next to a road.");
-  const [res, setRes] = useState<Resources>({ coin:0, lumber:0, stone:0, knowledge:0, magic:0 });
-  const [happiness] = useState(80);
-  const [tier] = useState<1|2|3>(1);
+  const [swapping, setSwapping] = useState<Set<number> | null>(null); // rack tiles picked for a swap, while choosing
+  const [hint, setHint] = useState<string | null>(null);               // last hint bought for the current rack
+  const [wordList, setWordList] = useState<WordListId>(savedWordList);
+  const [dict, setDict] = useState<Dictionary | null>(null);   // null while the list loads
+  const [dictProgress, setDictProgress] = useState(0);
+  const [msg, setMsg] = useState(notice ?? "Cozy build: pan (drag), zoom (wheel). Grow roads from the town centre; build next to them (piers on the shore). Click a building with no tool to inspect it.");
+  const [res, setRes] = useState<Resources>(()=> initial?.res ?? emptyResources());
+  const [tier, setTier] = useState<Tier>(()=> initial?.tier ?? 1);
+  const [research, setResearch] = useState<ResearchId[]>(()=> initial?.research ?? []);
+  const perks = useMemo(()=> perksOf(research), [research]);
+  const [quests, setQuests] = useState<QuestState>(()=> initial?.quests ?? emptyQuestState());
+  const [calendar, setCalendar] = useState<Calendar>(()=> initial?.calendar ?? newCalendar());
+  const calRef = useRef(calendar); calRef.current = calendar;
+  const season = seasonOf(calendar.clock);
+  const [daily, setDaily] = useState<DailyRun | null>(null);    // the sandbox autosave waits while this is set
+  const [board, setBoard] = useState<LeaderboardEntry[]>(loadLeaderboard);
+  const [player, setPlayer] = useState(savedPlayerName);
+  const inDaily = daily !== null;
+  const dailyTurn = daily ? daily.log.filter(a=> a.t==="w").length : 0;
 
-  const [selected, setSelected] = useState<Building | { id:"__road__" } | null>(null);
+  const [selected, setSelected] = useState<Tool | null>(null);
+  const [anchor, setAnchor] = useState<number | null>(null);       // first click of the line/area tool
   const [bridgeMode, setBridgeMode] = useState(false);
   const [removeMode, setRemoveMode] = useState(false);
+  const [showHappiness, setShowHappiness] = useState(false);
+  const [unlocked, setUnlocked] = useState<Tier | null>(null); // tier whose unlock screen is showing
+  const [inspected, setInspected] = useState<number | null>(null); // origin of the building in the inspector
+  const [hover, setHover] = useState<number | null>(null);         // tile under the cursor, for the ghost
 
-  useEffect(()=>{ (async()=> setDict(await loadWords()))(); }, []);
-
-  function placeRoadOrBridge(i:number){
-    setGrid(g=>{
-      const t = g[i]; if(!t) return g.slice();
-      const next = g.slice();
-      if (removeMode){
-        if (t.terrain==="road"||t.terrain==="bridge") next[i] = { ...t, terrain:"grass" };
-        else if (t.structure){
-          // remove whole building by origin
-          const origin = t.structure.origin;
-          const { x:ox, y:oy } = idxToXY(origin, GRID_SIZE);
-          for (let dx=0; dx<t.structure.w; dx++){
-            for (let dy=0; dy<t.structure.h; dy++){
-              const ii = xyToIdx(ox+dx, oy+dy, GRID_SIZE);
-              const tt = next[ii];
-              if (tt?.structure && tt.structure.origin === origin) next[ii] = { ...tt, structure: undefined };
-            }
-          }
-        }
-        return next;
-      }
-      if (t.terrain==="water"){
-        if (!bridgeMode) { setMsg("Toggle Bridge to span water."); return g; }
-        next[i] = { ...t, terrain:"bridge" }; return next;
-      }
-      if (t.terrain==="grass"){
-        if (t.biome==="thicket"){ setMsg("Thicket is impassable."); return g; }
-        next[i] = { ...t, terrain:"road" }; return next;
-      }
-      return g;
-    });
+  const [slots, setSlots] = useState(listSlots);
+  const [slotName, setSlotName] = useState("");
+  const [newWorldSeed, setNewWorldSeed] = useState<string | null>(null); // non-null while the dialog is open
+
+  const [paused, setPaused] = useState(false);
+  const [speed, setSpeed] = useState<typeof SPEEDS[number]>(1);
+
+  const [history, setHistory] = useState<History>(emptyHistory);
+  const live: Snapshot = { grid, res, rack, rackDraws, quests };
+  const liveRef = useRef(live); liveRef.current = live;
+  const strokeRef = useRef<{ before:Snapshot; cost:Resources; refund:Resources } | null>(null); // the current road drag, if any
+  const mapRef = useRef<MapViewHandle>(null);
+
+  useEffect(()=>{
+    setDict(null); setDictProgress(0); saveWordList(wordList);
+    return loadDictionary(wordList, setDictProgress, setDict);
+  }, [wordList]);
+
+  /* ---- Save / load ---- */
+  const snapshot = () => serializeSave({ seed, size:GRID_SIZE, grid, rack, rackDraws, res, tier, research, quests, calendar });
+
+  // Autosave whenever the city changes (not the daily challenge, which can't be resumed)
+  useEffect(()=>{ if (!inDaily) writeAutosave(snapshot()); }, [seed, grid, rack, rackDraws, res, tier, research, quests, calendar, inDaily]);
+
+  // Keep the current world shareable as a link
+  useEffect(()=>{ if (!inDaily) seedToURL(seed); }, [seed, inDaily]);
+
+  function applySave(save:SaveGame, label:string){
+    if (save.size !== GRID_SIZE) return setMsg(`Can't load ${label}: map is ${save.size}×${save.size}, expected ${GRID_SIZE}×${GRID_SIZE}.`);
+    setSeed(save.seed); setGrid(save.grid); setRack(save.rack); setRackDraws(save.rackDraws); setRes(save.res); setTier(save.tier); setResearch(save.research); setQuests(save.quests); setCalendar(save.calendar);
+    setSelected(null); setInspected(null); setTyped(""); setHistory(emptyHistory);
+    setMsg(`Loaded ${label}.`);
   }
 
-  /* Require building on land adjacent to road/bridge; enforce costs */
-  function onClickTile(i:number){
-    if (selected && (selected as any).id==="__road__") return placeRoadOrBridge(i);
-    if (!selected) return;
+  function onSaveSlot(){
+    const name = slotName.trim();
+    if (!name) return setMsg("Name the save slot first.");
+    try { saveSlot(name, snapshot()); setSlots(listSlots()); setMsg(`Saved "${name}".`); }
+    catch { setMsg("Couldn't write to browser storage."); }
+  }
 
-    const b = selected as Building;
-    const {x,y} = idxToXY(i, GRID_SIZE);
-
-    // Validate rectangular footprint on land (no roads/bridges/water; empty)
-    for (let dx=0; dx<b.w; dx++){
-      for (let dy=0; dy<b.h; dy++){
-        const xx=x+dx, yy=y+dy;
-        if(xx<0||yy<0||xx>=GRID_SIZE||yy>=GRID_SIZE){ setMsg("Out of bounds."); return; }
-        const ii=xyToIdx(xx,yy,GRID_SIZE); const tt=grid[ii];
-        if (!tt) { setMsg("Out of bounds."); return; }
-        if (tt.terrain==="water" || tt.terrain==="road" || tt.terrain==="bridge"){ setMsg("Place buildings on land, next to roads."); return; }
-        if (tt.structure){ setMsg("Space occupied."); return; }
+  function onLoadSlot(name:string){
+    try { applySave(loadSlot(name), `"${name}"`); }
+    catch (e) { setMsg((e as Error).message); }
+  }
+
+  function onDeleteSlot(name:string){ deleteSlot(name); setSlots(listSlots()); setMsg(`Deleted "${name}".`); }
+
+  function startNewWorld(raw:string){
+    const next = raw.trim() || randomSeed();
+    setSeed(next); setGrid(newWorldGrid(next));
+    const fresh = freshRack(next); setRack(fresh.rack); setRackDraws(fresh.rackDraws);
+    setRes(emptyResources()); setTier(1); setResearch([]); setQuests(emptyQuestState()); setCalendar(newCalendar());
+    setSelected(null); setInspected(null); setTyped(""); setNewWorldSeed(null); setHistory(emptyHistory);
+    setMsg(`New world "${next}". Share the link to play the same map.`);
+  }
+
+  function advanceTier(){
+    if (!progress?.ready) return setMsg("Not ready for the next tier yet.");
+    if (inDaily){ if (playDaily({ t:"t" })) setUnlocked(progress.next); return; }
+    setRes(r=> pay(r, progress.cost)); setHistory(emptyHistory);
+    setTier(progress.next); setUnlocked(progress.next);
+    const grew = topUpRack(rackSize(progress.next, perks.rackSlots));
+    setMsg(`Tier ${progress.next} reached (${formatChange({}, progress.cost)})${grew ? ` • rack holds ${rackSize(progress.next, perks.rackSlots)} letters` : ""}`);
+  }
+
+  /* Deal extra tiles when the rack grows (tier or research); false if it was already full */
+  function topUpRack(size:number){
+    const extra = size - rack.length;
+    if (extra <= 0) return false;
+    const { letters, next } = drawTiles(seed, rackDraws, extra, rack);
+    setRack([...rack, ...letters]); setRackDraws(next);
+    return true;
+  }
+
+  /* Research: knowledge buys permanent perks (game/research.ts) */
+  function startResearch(id:ResearchId){
+    const node = RESEARCH.find(r=> r.id===id)!;
+    const blocker = researchBlocker(id, research, tier);
+    if (blocker) return setMsg(`${node.name}: ${blocker}`);
+    if (!canAfford(res, node.cost)) return setMsg(`Not enough knowledge for ${node.name} (${formatChange({}, node.cost)}).`);
+    setRes(r=> pay(r, node.cost)); setHistory(emptyHistory);
+    setResearch([...research, id]);
+    if (node.perk.rackSlots) topUpRack(rackSize(tier, perks.rackSlots + node.perk.rackSlots));
+    setMsg(`${node.name} researched (${formatChange({}, node.cost)}) • ${node.desc}`);
+  }
+
+  /* ---- Daily challenge (game/challenge.ts) ---- */
+  function startDaily(){
+    const date = challengeDate(), s = startChallenge(date, GRID_SIZE);
+    setDaily({ date, list:wordList, log:[], result:null });
+    setSeed(s.seed); setGrid(s.grid); setRes(s.res); setRack(s.rack); setRackDraws(s.rackDraws); setTier(s.tier); setResearch([]); setCalendar(newCalendar());
+    setSelected(null); setInspected(null); setTyped(""); setSwapping(null); setHistory(emptyHistory);
+    setMsg(`Daily challenge ${date}: ${CHALLENGE_TURNS} words to build the best city you can. The economy runs between words.`);
+  }
+
+  function leaveDaily(){
+    setDaily(null);
+    let save:SaveGame|null = null;
+    try { save = loadAutosave(); }
+    catch (e) { startNewWorld(""); return setMsg(`Your autosave couldn't be loaded and a new world was started (${(e as Error).message}).`); }
+    if (save) applySave(save, "your city"); else startNewWorld("");
+  }
+
+  /* Run one action through the challenge rules; true if it happened */
+  function playDaily(action:ChallengeAction){
+    if (!daily) return false;
+    const { grid:g, res:r, rack:k, rackDraws:d } = liveRef.current;
+    const step = applyAction({ seed, grid:g, res:r, rack:k, rackDraws:d, tier, turn:dailyTurn }, action, dict ? w=> hasWord(dict, w) : undefined);
+    if (!step.ok){ if (step.reason) setMsg(step.reason); return false; }
+    const s = step.state;
+    liveRef.current = { ...liveRef.current, grid:s.grid, res:s.res, rack:s.rack, rackDraws:s.rackDraws };   // road drags land before the next render
+    setGrid(s.grid); setRes(s.res); setRack(s.rack); setRackDraws(s.rackDraws); setTier(s.tier);
+    setDaily(run=> run && { ...run, log:[...run.log, action] });
+    if (s.turn < CHALLENGE_TURNS) { setMsg(step.text); return true; }
+
+    const score = challengeScore(s.grid, s.res);
+    const replay: Replay = { v:REPLAY_VERSION, date:daily.date, list:daily.list, name:player.trim() || "Me", score:score.total, actions:encodeActions([...daily.log, action]) };
+    setDaily(run=> run && { ...run, result:{ replay, score } });
+    setBoard(addToLeaderboard({ replay, score, imported:false }));
+    setMsg(`${step.text} • Challenge over: ${score.total} points (${scoreLines(score).join(", ")})`);
+    return true;
+  }
+
+  function exportReplay(replay:Replay){ downloadJSON(replay, `wordcity-daily-${replay.date}-${replay.score}.json`); }
+
+  /* A teammate's run counts once it re-simulates to the score it claims */
+  async function onImportReplay(file:File|undefined){
+    if (!file) return;
+    try {
+      const replay = await importReplay(file);
+      const sameList = dict && !dict.fallback && dict.list===replay.list;
+      const verdict = verifyReplay(replay, GRID_SIZE, sameList ? w=> hasWord(dict, w) : undefined);
+      if (!verdict.ok) return setMsg(`Rejected ${replay.name}'s run: ${verdict.reason}.`);
+      setBoard(addToLeaderboard({ replay, score:verdict.score, imported:true }));
+      setMsg(`Verified ${replay.name}'s run on ${replay.date}: ${verdict.score.total} points${sameList ? "" : ` (words not checked: pick the ${replay.list} word list to check them)`}.`);
+    } catch (e) { setMsg((e as Error).message); }
+  }
+
+  async function onImport(file:File|undefined){
+    if (!file) return;
+    try { applySave(await importSave(file), file.name); }
+    catch (e) { setMsg((e as Error).message); }
+  }
+
+  /* ---- Simulation tick ---- */
+  const econ = useMemo(()=> computeEconomy(grid, res, perks, season), [grid, res, perks, season]);
+  const happiness = useMemo(()=> computeHappiness(grid, GRID_SIZE, econ, eventHappiness(calendar)), [grid, econ, calendar]);
+  const network = useMemo(()=> computeNetwork(grid, GRID_SIZE), [grid]);
+  const inactive = useMemo(()=> new Set(grid.flatMap((t,i)=> t.structure?.anchor && !network.active.has(i) ? [i] : [])), [grid, network]);
+  const progress = useMemo(()=> tierProgress(tier, grid, econ, res), [tier, grid, econ, res]);
+  const dailyScore = useMemo(()=> inDaily ? challengeScore(grid, res) : null, [inDaily, grid, res]);
+  const boardDate = daily?.date ?? challengeDate();
+  const dailyBoard = board.filter(e=> e.replay.date===boardDate).slice(0, 10);
+  const happinessOverlay = useMemo(()=> showHappiness ? happinessMap(grid, GRID_SIZE) : null, [showHappiness, grid]);
+
+  /* Quests (game/quests.ts) pay out as soon as their goal is met; like research the payout isn't
+     undoable, so it ends the undo chain (undo would drop the bonus tiles for good) */
+  useEffect(()=>{
+    if (inDaily) return;
+    const won = finishedQuests(quests, { grid, res, tier, population: econ.population });
+    if (!won.length) return;
+    setQuests(q=> ({ ...q, done: [...q.done, ...won.map(w=> w.id)] }));
+    const reward = won.reduce((r, w)=> gain(r, w.reward.res || {}), emptyResources());
+    const letters = won.flatMap(w=> w.reward.letters || []);
+    setRes(r=> gain(r, reward)); setHistory(emptyHistory);
+    if (letters.length) setRack(r=> [...r, ...letters]);
+    setMsg(`Quest complete: ${won.map(w=> w.name).join(", ")} (${formatChange(reward)})${letters.length ? ` • bonus tiles ${letters.join(" ")}` : ""}`);
+  }, [grid, res, tier, econ.population, quests, inDaily]);
+
+  useEffect(()=>{
+    if (paused || inDaily) return;
+    const tick = ()=>{
+      const g = liveRef.current.grid, step = advanceCalendar(calRef.current, g, seed);
+      calRef.current = step.calendar; setCalendar(step.calendar);
+      if (step.grid !== g){   // floods reshape the map, so older undo steps no longer apply
+        liveRef.current = { ...liveRef.current, grid: step.grid };
+        setGrid(step.grid); setHistory(emptyHistory);
       }
+      if (step.news.length) setMsg(step.news.join(" • "));
+      setRes(r=> runTick(step.grid, r, perks, seasonOf(step.calendar.clock)));
+    };
+    const id = window.setInterval(tick, TICK_MS / speed);
+    return ()=> window.clearInterval(id);
+  }, [paused, speed, perks, inDaily, seed]);
+
+  /* Event responses (game/seasons.ts); like research they're not undoable and end the undo chain */
+  function raiseLevees(k:number){
+    const e = calendar.events[k];
+    if (e?.kind!=="flood" || e.hit || e.levees) return;
+    const cost = leveeCost(grid, e);
+    if (!canAfford(res, cost)) return setMsg(`Not enough stone for levees (${formatChange({}, cost)}).`);
+    setRes(r=> pay(r, cost)); setCalendar(c=> buildLevees(c, k)); setHistory(emptyHistory);
+    setMsg(`Levees raised (${formatChange({}, cost)}) • the roads by the river are safe.`);
+  }
+
+  function holdFeast(k:number){
+    const e = calendar.events[k];
+    if (e?.kind!=="festival" || e.funded) return;
+    if (!canAfford(res, FEAST_COST)) return setMsg(`Not enough coin for a feast (${formatChange({}, FEAST_COST)}).`);
+    setRes(r=> pay(r, FEAST_COST)); setCalendar(c=> fundFestival(c, k)); setHistory(emptyHistory);
+    setMsg(`The town feasts (${formatChange({}, FEAST_COST)}) • festival happiness doubled.`);
+  }
+
+  /* ---- Undo / redo ---- */
+  /* Quest counts roll back with the action; finished quests stay finished since their reward is already paid */
+  function restore(snap:Snapshot){
+    setGrid(snap.grid); setRes(snap.res); setRack(snap.rack); setRackDraws(snap.rackDraws);
+    setQuests(q=> ({ counts: snap.quests.counts, done: q.done }));
+  }
+
+  /* Apply a player action and record it as one undo step */
+  function perform(label:string, after:Partial<Snapshot>){
+    const next = { ...live, ...after };
+    restore(next);
+    setHistory(h=> pushCommand(h, { label, before:live, after:next }));
+  }
+
+  function undo(){
+    if (inDaily) return setMsg("Undo is off during the daily challenge.");
+    const cmd = history.past[history.past.length-1];
+    if (!cmd) return setMsg("Nothing to undo.");
+    const back = shiftRes(res, cmd.after.res, cmd.before.res);
+    if (!back) return setMsg(`Can't undo ${cmd.label}: what it earned has already been spent.`);
+    restore({ ...cmd.before, res: back }); setHistory(stepBack); setMsg(`Undid ${cmd.label}.`);
+  }
+
+  function redo(){
+    if (inDaily) return setMsg("Redo is off during the daily challenge.");
+    const cmd = history.future[0];
+    if (!cmd) return setMsg("Nothing to redo.");
+    const ahead = shiftRes(res, cmd.before.res, cmd.after.res);
+    if (!ahead) return setMsg(`Can't redo ${cmd.label}: not enough resources.`);
+    restore({ ...cmd.after, res: ahead }); setHistory(stepForward); setMsg(`Redid ${cmd.label}.`);
+  }
+
+  // Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redo; text inputs keep their own undo
+  useEffect(()=>{
+    const onKey = (e:KeyboardEvent)=>{
+      if (!(e.ctrlKey || e.metaKey) || (e.target as HTMLElement)?.tagName==="INPUT") return;
+      const k = e.key.toLowerCase();
+      if (k==="z" && !e.shiftKey){ e.preventDefault(); undo(); }
+      else if ((k==="z" && e.shiftKey) || k==="y"){ e.preventDefault(); redo(); }
+    };
+    window.addEventListener("keydown", onKey);
+    return ()=> window.removeEventListener("keydown", onKey);
+  });
+
+  /* Road tool: paint/remove one tile. Drag strokes are collected and recorded once in onDragEnd. */
+  function placeRoadOrBridge(i:number, fromDrag=false){
+    if (inDaily) return void playDaily({ t:"r", at:i, mode: removeMode ? "remove" : bridgeMode ? "bridge" : "road" });
+    const { grid:g, res:r } = liveRef.current;
+    const edit = editRoad(g, GRID_SIZE, i, { bridgeMode, removeMode, perks });
+    if (!edit.ok){ if (edit.reason) setMsg(edit.reason); return; }
+    if (!canAfford(r, edit.cost)) return setMsg(`Not enough resources for a ${edit.label} (${formatChange({}, edit.cost)}).`);
+    const next = edit.grid, nextRes = gain(pay(r, edit.cost), edit.refund);
+
+    const notes:string[] = [];
+    if (edit.label==="bridge" && !completeBridges(next, GRID_SIZE).has(i)) notes.push("Bridge under construction: reach the far bank to open it.");
+    if (removeMode){
+      const before = computeNetwork(g, GRID_SIZE).active, after = computeNetwork(next, GRID_SIZE).active;
+      const lost = [...before].filter(o=> !after.has(o) && next[o]?.structure?.origin===o).length;
+      if (lost) notes.push(`${lost} building${lost>1?"s":""} cut off from the town centre and now inactive.`);
     }
 
-    // Must touch a road/bridge on any edge of the footprint
-    const touchesRoad = (() => {
-      for (let dx=0; dx<b.w; dx++){
-        for (let dy=0; dy<b.h; dy++){
-          const xx=x+dx, yy=y+dy;
-          const neighbors = [[1,0],[-1,0],[0,1],[0,-1]];
-          for (const [nx,ny] of neighbors){
-            const tx=xx+nx, ty=yy+ny;
-            if (tx<0||ty<0||tx>=GRID_SIZE||ty>=GRID_SIZE) continue;
-            const n = grid[xyToIdx(tx,ty,GRID_SIZE)];
-            if (n && (n.terrain==="road" || n.terrain==="bridge")) return true;
-          }
-        }
-      }
-      return false;
-    })();
-    if (!touchesRoad){ setMsg("Buildings must touch a road/bridge."); return; }
+    let change = `${edit.label[0].toUpperCase()+edit.label.slice(1)} (${formatChange(edit.refund, edit.cost)})`;
+    if (fromDrag){
+      const stroke = strokeRef.current ?? (strokeRef.current = { before: liveRef.current, cost: emptyResources(), refund: emptyResources() });
+      stroke.cost = gain(stroke.cost, edit.cost); stroke.refund = gain(stroke.refund, edit.refund);
+      liveRef.current = { ...liveRef.current, grid: next, res: nextRes };
+      setGrid(next); setRes(nextRes);
+      change = `${removeMode ? "Clearing" : "Road drawing"} (${formatChange(stroke.refund, stroke.cost)})`;
+    } else {
+      perform(edit.label, { grid: next, res: nextRes });
+    }
+    setMsg([change, ...notes].join(" • "));
+  }
+
+  function onDragEnd(){
+    const stroke = strokeRef.current; strokeRef.current = null;
+    if (stroke) setHistory(h=> pushCommand(h, { label: removeMode ? "clearing" : "road drawing", before: stroke.before, after: liveRef.current }));
+  }
+
+  /* Area tools: the plan from the first click to `i`, checked against what we can pay */
+  function planArea(i:number){
+    if (anchor===null) return null;
+    const plan = selected?.id==="__line__" ? planRoadLine(grid, GRID_SIZE, anchor, i, { bridgeMode, perks }) : planClearArea(grid, GRID_SIZE, anchor, i, perks);
+    if (plan.ok && !canAfford(res, plan.cost)) return { ok:false as const, reason:`Not enough resources (${plan.summary}: ${formatChange({}, plan.cost)}).`, tiles:plan.tiles };
+    return plan;
+  }
+
+  useEffect(()=> setAnchor(null), [selected]);
+  useEffect(()=>{
+    const onKey = (e:KeyboardEvent)=>{ if (e.key==="Escape") setAnchor(null); };
+    window.addEventListener("keydown", onKey);
+    return ()=> window.removeEventListener("keydown", onKey);
+  }, []);
+
+  /* Placement rules (game/placement.ts) plus affordability; shared by clicks and the hover ghost */
+  function previewBuild(b:Building, i:number){
+    if (!isAvailable(b, tier, perks)) return { ok:false as const, reason:"Not unlocked yet.", cost:b.cost };
+    const check = checkPlacement(grid, GRID_SIZE, b, i);
+    if (check.ok && !canAfford(res, check.cost)) return { ok:false as const, reason:"Not enough resources.", cost:check.cost };
+    return check;
+  }
+
+  /* Spells (game/spells.ts): the terrain change plus affordability; shared by clicks and the ghost */
+  function previewSpell(id:SpellId, i:number){
+    const cast = castSpell(grid, GRID_SIZE, id, i);
+    if (cast.ok && !canAfford(res, cast.cost)) return { ok:false as const, reason:"Not enough magic.", tiles:cast.tiles };
+    return cast;
+  }
+
+  function castAt(id:SpellId, i:number){
+    const spell = SPELLS_BY_ID[id], cast = previewSpell(id, i);
+    if (!cast.ok){ setMsg(cast.reason); return; }
+    perform(spell.name, { grid: cast.grid, res: pay(res, cast.cost) });
+    setMsg(`${spell.name} cast (${formatChange({}, cast.cost)}) • ${cast.changed} tile${cast.changed>1?"s":""} changed`);
+  }
+
+  function rerollRack(){
+    const spell = SPELLS_BY_ID.reroll;
+    if (!canAfford(res, spell.cost)) return setMsg(`Not enough magic for ${spell.name} (${formatChange({}, spell.cost)}).`);
+    const { letters, next } = drawTiles(seed, rackDraws, rack.length, []);
+    perform(spell.name, { res: pay(res, spell.cost), rack: letters, rackDraws: next });
+    setTyped(""); setSwapping(null);
+    setMsg(`${spell.name} cast (${formatChange({}, spell.cost)})`);
+  }
+
+  /* Hover ghost: what clicking the hovered tile would do with the current tool */
+  const ghost = useMemo(()=>{
+    if (hover===null || !selected) return null;
+    if (selected.id==="__road__"){
+      const e = editRoad(grid, GRID_SIZE, hover, { bridgeMode, removeMode, perks });
+      if (!e.ok) return { tiles:e.tiles, ok:false, text:e.reason };
+      const text = `${e.label[0].toUpperCase()+e.label.slice(1)}: ${formatChange(e.refund, e.cost)}`;
+      return canAfford(res, e.cost) ? { tiles:e.tiles, ok:true, text } : { tiles:e.tiles, ok:false, text:`${text}: Not enough resources.` };
+    }
+    if (selected.id==="__spell__"){
+      const spell = SPELLS_BY_ID[(selected as { spell:SpellId }).spell], cast = previewSpell(spell.id, hover);
+      const price = formatChange({}, spell.cost);
+      return { tiles:cast.tiles, ok:cast.ok, text: cast.ok ? `${spell.name}: ${price} • ${cast.changed} tile${cast.changed>1?"s":""}` : `${spell.name} (${price}): ${cast.reason}` };
+    }
+    if (isAreaTool(selected)){
+      const plan = planArea(hover);
+      if (!plan) return { tiles:[hover], ok:true, text: selected.id==="__line__" ? "Click where the road starts" : "Click a corner of the area to clear" };
+      if (!plan.ok) return { tiles:plan.tiles, ok:false, text:plan.reason };
+      const { cost, refund } = plan;
+      return { tiles:plan.tiles, ok:true, text:`${plan.summary} • cost ${formatChange({}, cost)} • refund ${formatChange(refund)} — click to confirm` };
+    }
+    const b = selected as Building;
+    const { x, y } = idxToXY(hover, GRID_SIZE);
+    const tiles = footprintOf(hover, Math.min(b.w, GRID_SIZE-x), Math.min(b.h, GRID_SIZE-y), GRID_SIZE);
+    const check = previewBuild(b, hover);
+    const cost = check.ok || "cost" in check ? check.cost : b.cost;
+    const price = formatChange({}, cost);
+    return { tiles, ok:check.ok, text: check.ok
+      ? `${b.name}: ${price}${check.notes.length ? " • " + check.notes.join(", ") : ""}`
+      : `${b.name} (${price}): ${check.reason}` };
+  }, [hover, selected, anchor, grid, res, bridgeMode, removeMode, perks]);
 
-    // Enforce cost
-    if (!canAfford(res, b.cost)){ setMsg("Not enough resources."); return; }
+  function onClickTile(i:number){
+    if (selected?.id==="__road__") return placeRoadOrBridge(i);
+    if (isAreaTool(selected)) return applyArea(i);
+    if (selected?.id==="__spell__") return castAt((selected as { spell:SpellId }).spell, i);
+    if (!selected){ const s = grid[i]?.structure; setInspected(s ? s.origin : null); return; }
+
+    const b = selected as Building;
+    const check = previewBuild(b, i);
+    if (!check.ok){ setMsg(check.reason); return; }
+    if (inDaily) return void playDaily({ t:"b", id:b.id, at:i });
 
     // Place + pay
-    setGrid(g=>{
-      const next=g.slice();
-      const origin = xyToIdx(x,y,GRID_SIZE);
-      for (let dx=0; dx<b.w; dx++){
-        for (let dy=0; dy<b.h; dy++){
-          const ii=xyToIdx(x+dx,y+dy,GRID_SIZE);
-          next[ii] = { ...next[ii], structure:{
-            id:b.id, level:1, icon:b.icon, w:b.w, h:b.h, anchor: (dx===0 && dy===0), origin
-          }};
-        }
-      }
-      return next;
-    });
-    setRes(r=> pay(r, b.cost));
-    setMsg(`${b.name} built (-${b.cost.coin||0}c, -${b.cost.lumber||0}l, -${b.cost.stone||0}s)`);
+    const next = placeBuilding(grid, GRID_SIZE, b, i);
+    perform(b.name, { grid: next, res: pay(res, check.cost), quests: recordEvent(quests, { type:"build", building:b.id }) });
+    setMsg(`${b.name} built (${formatChange({}, check.cost)})${check.notes.length ? " • " + check.notes.join(", ") : ""}`);
+  }
+
+  /* Line/area tools: the first click sets the anchor, the second confirms the previewed plan */
+  function applyArea(i:number){
+    const plan = planArea(i);
+    if (!plan){ setAnchor(i); setMsg(selected?.id==="__line__" ? "Now click where the road ends (Esc cancels)." : "Now click the opposite corner (Esc cancels)."); return; }
+    if (!plan.ok){ setMsg(plan.reason); return; }
+    perform(plan.label, { grid: plan.grid, res: gain(pay(res, plan.cost), plan.refund) });
+    setAnchor(null);
+    const lost = [...network.active].filter(o=> !computeNetwork(plan.grid, GRID_SIZE).active.has(o) && plan.grid[o]?.structure?.origin===o).length;
+    setMsg(`${plan.summary} (${formatChange(plan.refund, plan.cost)})${lost ? ` • ${lost} building${lost>1?"s":""} cut off from the town centre and now inactive.` : ""}`);
+  }
+
+  /* Inspector: upgrade the building at `origin` one level */
+  function upgradeBuilding(origin:number){
+    const s = grid[origin]?.structure, def = s && CATALOG_BY_ID[s.id];
+    if (!s || !def) return;
+    if (!canUpgrade(def)) return setMsg(`The ${def.name.toLowerCase()} can't be upgraded.`);
+    if (s.level >= MAX_LEVEL) return setMsg(`${def.name} is already at max level.`);
+    const cost = upgradeCost(def, s.level);
+    if (!canAfford(res, cost)) return setMsg("Not enough resources.");
+    if (inDaily) return void playDaily({ t:"u", at:origin });
+    perform(`${def.name} upgrade`, { grid: upgradeAt(grid, origin), res: pay(res, cost) });
+    setMsg(`${def.name} upgraded to level ${s.level+1} (${formatChange({}, cost)})`);
   }
 
   function onDragTile(i:number){
-    if (selected && (selected as any).id==="__road__") placeRoadOrBridge(i);
+    if (selected?.id==="__road__") placeRoadOrBridge(i, true);
   }
 
-  function submitWord(raw:string){
+  /* ---- Rack: click to spell, shuffle, paid swap ---- */
+  const usedTiles = useMemo(()=> new Set(tilesForWord(typed.toUpperCase().replace(/[^A-Z]/g,""), rack).filter((i):i is number=> i!==null)), [typed, rack]);
+
+  function onRackTile(i:number){
+    if (swapping){ const next = new Set(swapping); next.has(i) ? next.delete(i) : next.add(i); return setSwapping(next); }
+    const ch = rack[i], word = typed.toUpperCase();
+    if (!usedTiles.has(i)) return setTyped(word + ch);
+    const at = word.lastIndexOf(ch);   // give the letter back
+    setTyped(word.slice(0, at) + word.slice(at + 1));
+  }
+
+  function swapTiles(){
+    if (!swapping?.size) return setMsg("Pick the letters to swap first.");
+    const cost = swapCost(swapping.size);
+    if (!canAfford(res, cost)) return setMsg(`Not enough resources to swap (${formatChange({}, cost)}).`);
+    if (inDaily){ if (playDaily({ t:"s", letters: rack.filter((_,i)=> swapping.has(i)).join("") })){ setSwapping(null); setTyped(""); } return; }
+    const keep = rack.filter((_,i)=> !swapping.has(i));
+    const { letters, next } = drawTiles(seed, rackDraws, swapping.size, keep);
+    perform("letter swap", { res: pay(res, cost), rack: [...keep, ...letters], rackDraws: next });
+    setSwapping(null); setTyped("");
+    setMsg(`Swapped ${swapping.size} letter${swapping.size>1?"s":""} (${formatChange({}, cost)})`);
+  }
+
+  /* Hints: paid in knowledge/magic, answered from the dictionary for the current rack */
+  const rackLetters = rack.slice().sort().join("");   // shuffling keeps the hint
+  useEffect(()=> setHint(null), [rackLetters, dict]);
+
+  function buyHint(kind:HintKind){
+    if (!dict) return setMsg("Dictionary still loading…");
+    const cost = hintCost(kind, tier);
+    if (!canAfford(res, cost)) return setMsg(`Not enough resources for that hint (${formatChange({}, cost)}).`);
+    const words = playableWords(dict, rack, minWordLength(tier));
+    setRes(r=> pay(r, cost)); setHistory(emptyHistory);
+    setHint(revealHint(kind, words, bestWord(words, rack.length, happinessMultiplier(happiness.score))));
+    setMsg(`Hint (${formatChange({}, cost)})`);
+  }
+
+  /* Word rules plus the payout (game/scoring.ts); shared by submit and the live preview */
+  function checkWord(raw:string){
     const word = (raw||"").toUpperCase().replace(/[^A-Z]/g,"");
-    if (word.length < (tier>=2?4:3)) return setMsg("Word too short for this tier.");
-    if (!canFormFromRack(word, rack)) return setMsg("Can't form from rack.");
-    if (!dict.has(word)) return setMsg("Not in dictionary.");
-
-    const vowels=(word.match(/[AEIOU]/g)||[]).length, rares=(word.match(/[JQXZKV]/g)||[]).length;
-    const gain:Resources = {
-      coin: Math.max(1, Math.floor(word.length/2)),
-      lumber: Math.floor((word.length - vowels)/3),
-      stone: Math.floor((word.length - vowels)/4),
-      knowledge: Math.floor(vowels/2),
-      magic: rares
-    };
-    const mult = happiness>=80?1.2:happiness<=20?0.8:1;
-    (Object.keys(gain) as (keyof Resources)[]).forEach(k=> gain[k] = Math.floor(gain[k]*mult));
-    setRes(r=>({ coin:r.coin+gain.coin, lumber:r.lumber+gain.lumber, stone:r.stone+gain.stone, knowledge:r.knowledge+gain.knowledge, magic:r.magic+gain.magic }));
+    if (word.length < minWordLength(tier)) return { ok:false as const, word, reason:"Word too short for this tier." };
+    if (!canFormFromRack(word, rack)) return { ok:false as const, word, reason:"Can't form from rack." };
+    if (!dict) return { ok:false as const, word, reason:"Dictionary still loading…" };
+    if (!hasWord(dict, word)) return { ok:false as const, word, reason: dict.fallback ? "Not in the fallback word list (the real list failed to load)." : "Not in dictionary." };
+    return { ok:true as const, word, score: scoreWord(word, rack.length, happinessMultiplier(happiness.score)) };
+  }
+  const wordPreview = useMemo(()=> typed.trim() ? checkWord(typed) : null, [typed, rack, dict, tier, happiness.score]);
+
+  function submitWord(raw:string){
+    const check = checkWord(raw);
+    if (!check.ok) return setMsg(check.reason);
+    if (inDaily){ if (playDaily({ t:"w", word:check.word })){ setTyped(""); setSwapping(null); } return; }
+    const { word, score:{ payout:gain } } = check;
+    const nextRes = { coin:res.coin+gain.coin, lumber:res.lumber+gain.lumber, stone:res.stone+gain.stone, knowledge:res.knowledge+gain.knowledge, magic:res.magic+gain.magic };
 
     // consume from rack
     const need = countChars(word); const keep:string[]=[];
     for (const ch of rack){ if (need[ch]) need[ch]--; else keep.push(ch); }
-    while (keep.length < rack.length) keep.push(weightedRandomLetter());
-    setRack(keep);
+    const { letters, next } = drawTiles(seed, rackDraws, Math.max(0, rackSize(tier, perks.rackSlots) - keep.length), keep);
+    perform(`"${word}"`, { res: nextRes, rack: [...keep, ...letters], rackDraws: next, quests: recordEvent(quests, { type:"word", word }) });
 
-    setTyped(""); setMsg(`+${gain.coin}c +${gain.lumber}l +${gain.stone}s +${gain.knowledge}k +${gain.magic}m`);
+    setTyped(""); setSwapping(null); setMsg(`"${word}" (${formatChange(gain)})`);
   }
 
   return (
@@ -260,17 +583,69 @@ export default function App(){
       <div style={{ maxWidth:1400, margin:"0 auto" }}>
         <header style={{ display:"flex", alignItems:"center", justifyContent:"space-between", marginBottom:8 }}>
           <h1 style={{ fontWeight:800, fontSize:20 }}>WordCity ✨ <span style={{ opacity:0.6, fontSize:12 }}>cozy build</span></h1>
-          <div style={{ display:"flex", gap:12, fontSize:12 }}>
-            <div>💰 {res.coin}</div><div>🪵 {res.lumber}</div><div>🪨 {res.stone}</div><div>📖 {res.knowledge}</div><div>✨ {res.magic}</div>
+          <div style={{ display:"flex", alignItems:"center", flexWrap:"wrap", gap:12, fontSize:12 }}>
+            {([["coin","💰"],["lumber","🪵"],["stone","🪨"],["knowledge","📖"],["magic","✨"]] as [keyof Resources,string][]).map(([k,icon])=>(
+              <div key={k}>{icon} {res[k]}{econ.yields[k] ? <span style={{ opacity:0.6, color: econ.yields[k]>0 ? "#86efac" : "#fca5a5" }}> {econ.yields[k]>0?"+":""}{econ.yields[k]}</span> : null}</div>
+            ))}
+            <div title={`${econ.employed} of ${econ.jobs} jobs filled`}>👥 {econ.population}</div>
+            <div title={happiness.factors.map(f=>`${f.label}: ${f.value>0 && f.label!=="Base"?"+":""}${f.value}`).join("\n") + `\nWords pay ×${happinessMultiplier(happiness.score)}`} style={{ cursor:"help" }}>
+              {happiness.score>=80?"😊":happiness.score<=20?"😞":"🙂"} {happiness.score}
+            </div>
+            <label style={{ display:"flex", alignItems:"center", gap:4 }}><input type="checkbox" checked={showHappiness} onChange={e=>setShowHappiness(e.target.checked)} /> Mood map</label>
+            {!inDaily && <>
+            <button onClick={()=>setPaused(p=>!p)} title={paused ? "Resume simulation" : "Pause simulation"} style={{ padding:"2px 10px", borderRadius:8, background:"#0b1220", border:"1px solid #334155", color:"#e5e7eb" }}>{paused ? "▶" : "⏸"}</button>
+            <button onClick={()=>setSpeed(s=> SPEEDS[(SPEEDS.indexOf(s)+1) % SPEEDS.length])} title="Simulation speed" style={{ padding:"2px 10px", borderRadius:8, background:"#0b1220", border:"1px solid #334155", color:"#e5e7eb" }}>{speed}×</button>
+            </>}
             <label style={{ display:"flex", alignItems:"center", gap:4 }}><input type="checkbox" checked={removeMode} onChange={e=>setRemoveMode(e.target.checked)} /> Remove</label>
             <label style={{ display:"flex", alignItems:"center", gap:4 }}><input type="checkbox" checked={bridgeMode} onChange={e=>setBridgeMode(e.target.checked)} /> Bridge</label>
+            <button onClick={undo} disabled={inDaily || !history.past.length} title={history.past.length ? `Undo ${history.past[history.past.length-1].label} (Ctrl+Z)` : "Nothing to undo"} style={{ padding:"2px 10px", borderRadius:8, background:"#0b1220", border:"1px solid #334155", color:"#e5e7eb" }}>↶</button>
+            <button onClick={redo} disabled={inDaily || !history.future.length} title={history.future.length ? `Redo ${history.future[0].label} (Ctrl+Shift+Z)` : "Nothing to redo"} style={{ padding:"2px 10px", borderRadius:8, background:"#0b1220", border:"1px solid #334155", color:"#e5e7eb" }}>↷</button>
+            {!inDaily && <button onClick={()=>setNewWorldSeed(randomSeed())} title={`Seed: ${seed}`} style={{ padding:"2px 10px", borderRadius:8, background:"#0b1220", border:"1px solid #334155", color:"#e5e7eb" }}>New world</button>}
           </div>
         </header>
 
+        {unlocked !== null && (
+          <div style={{ position:"fixed", inset:0, background:"rgba(2,6,23,.7)", display:"flex", alignItems:"center", justifyContent:"center", zIndex:10 }}>
+            <div style={{ width:380, background:"#0f172a", border:"1px solid #334155", borderRadius:16, padding:16, textAlign:"center" }}>
+              <div style={{ fontSize:28 }}>🏰</div>
+              <div style={{ fontWeight:800, fontSize:18, marginBottom:8 }}>Tier {unlocked} unlocked!</div>
+              <div style={{ fontSize:13, opacity:0.85, marginBottom:8 }}>New buildings:</div>
+              <div style={{ display:"flex", flexWrap:"wrap", justifyContent:"center", gap:6, marginBottom:10 }}>
+                {unlockedAt(unlocked).map(b=>(
+                  <div key={b.id} style={{ padding:"4px 10px", borderRadius:10, border:"1px solid #334155", background:"#0b1220", fontSize:12 }}>{b.name} <span style={{ opacity:0.6 }}>{b.w}×{b.h}</span></div>
+                ))}
+              </div>
+              {minWordLength(unlocked) > minWordLength((unlocked-1) as Tier) && (
+                <div style={{ fontSize:12, opacity:0.75, marginBottom:10 }}>Words now need at least {minWordLength(unlocked)} letters.</div>
+              )}
+              <button onClick={()=>setUnlocked(null)} style={{ padding:"8px 16px", borderRadius:10, background:"#6366f1", border:"none", color:"#fff" }}>Onward</button>
+            </div>
+          </div>
+        )}
+
+        {newWorldSeed !== null && (
+          <div style={{ position:"fixed", inset:0, background:"rgba(2,6,23,.7)", display:"flex", alignItems:"center", justifyContent:"center", zIndex:10 }}>
+            <div style={{ width:360, background:"#0f172a", border:"1px solid #334155", borderRadius:16, padding:16 }}>
+              <div style={{ fontWeight:700, marginBottom:4 }}>New world</div>
+              <div style={{ fontSize:12, opacity:0.7, marginBottom:10 }}>Same seed, same map and letters. Current: <code>{seed}</code></div>
+              <div style={{ display:"flex", gap:8, marginBottom:12 }}>
+                <input autoFocus value={newWorldSeed} onChange={e=>setNewWorldSeed(e.target.value)} onKeyDown={e=>{ if(e.key==="Enter") startNewWorld(newWorldSeed); if(e.key==="Escape") setNewWorldSeed(null); }}
+                  placeholder="Seed…" style={{ flex:1, padding:"8px 10px", borderRadius:10, border:"1px solid #334155", background:"#0b1220", color:"#e5e7eb" }}/>
+                <button onClick={()=>setNewWorldSeed(randomSeed())} title="Random seed" style={{ padding:"8px 10px", borderRadius:10, background:"#0b1220", border:"1px solid #334155", color:"#e5e7eb" }}>🎲</button>
+              </div>
+              <div style={{ display:"flex", justifyContent:"flex-end", gap:8 }}>
+                <button onClick={()=>setNewWorldSeed(null)} style={{ padding:"8px 12px", borderRadius:10, background:"#0b1220", border:"1px solid #334155", color:"#e5e7eb" }}>Cancel</button>
+                <button onClick={()=>startNewWorld(newWorldSeed)} style={{ padding:"8px 12px", borderRadius:10, background:"#6366f1", border:"none", color:"#fff" }}>Create</button>
+              </div>
+            </div>
+          </div>
+        )}
+
         <div style={{ display:"grid", gridTemplateColumns:"2fr 1fr", gap:12 }}>
           {/* MAP PANEL */}
           <div
             style={{
+              position: "relative",
               background: "rgba(30,41,59,.6)",
               border: "1px solid #334155",
               borderRadius: 16,
@@ -281,51 +656,339 @@ export default function App(){
             }}
           >
             <div style={{ width: "100%", height: "100%" }}>
-              <MapView tiles={grid} size={GRID_SIZE} tileSize={28} ghost={null} onClick={onClickTile} onDrag={onDragTile} />
+              <MapView ref={mapRef} tiles={grid} size={GRID_SIZE} seed={seed} tileSize={28} ghost={ghost?.tiles ?? null} ghostValid={ghost?.ok ?? true} overlay={happinessOverlay} inactive={inactive}
+                home={network.centre} season={season} paintTool={selected?.id==="__road__"} onClick={onClickTile} onDrag={onDragTile} onDragEnd={onDragEnd} onHover={setHover} />
             </div>
+            {network.centre !== null && (
+              <button onClick={()=>mapRef.current?.centreOn(network.centre!)} title="Centre on town (WASD/arrows pan, +/- zoom, Space/right-drag pans while building roads)"
+                style={{ position:"absolute", right:16, top:16, padding:"4px 10px", borderRadius:10, fontSize:12, background:"rgba(11,18,32,.85)", border:"1px solid #334155", color:"#e5e7eb" }}>🏛 Centre on town</button>
+            )}
+            {ghost?.text && (
+              <div style={{ position:"absolute", left:16, top:16, padding:"4px 10px", borderRadius:10, fontSize:12, pointerEvents:"none",
+                background:"rgba(11,18,32,.85)", border:`1px solid ${ghost.ok ? "#4ade80" : "#f87171"}`, color: ghost.ok ? "#bbf7d0" : "#fecaca" }}>
+                {ghost.ok ? "✓" : "✗"} {ghost.text}
+              </div>
+            )}
           </div>
 
           {/* UI PANEL */}
           <div style={{ display:"grid", gap:12 }}>
             <div style={{ background:"rgba(30,41,59,.6)", border:"1px solid #334155", borderRadius:16, padding:12 }}>
               <div style={{ marginBottom:8, opacity:0.85, fontSize:14 }}>{msg}</div>
+              <div style={{ display:"flex", alignItems:"center", gap:8, marginBottom:8, fontSize:12 }}>
+                <select value={wordList} onChange={e=>setWordList(e.target.value as WordListId)} disabled={inDaily} title={WORD_LISTS.find(l=>l.id===wordList)?.hint}
+                  style={{ padding:"2px 6px", borderRadius:8, background:"#0b1220", border:"1px solid #334155", color:"#e5e7eb" }}>
+                  {WORD_LISTS.map(l=> <option key={l.id} value={l.id}>{l.name} words</option>)}
+                </select>
+                {!dict ? (
+                  <div style={{ flex:1, display:"flex", alignItems:"center", gap:6, opacity:0.8 }}>
+                    Loading… <div style={{ flex:1, height:6, borderRadius:3, background:"#0b1220", overflow:"hidden" }}><div style={{ width:`${Math.round(dictProgress*100)}%`, height:"100%", background:"#6366f1" }} /></div>
+                  </div>
+                ) : dict.fallback ? (
+                  <div title={dict.fallback} style={{ color:"#fbbf24" }}>⚠ Word list failed to load; only {dict.size} fallback words are accepted.</div>
+                ) : (
+                  <div style={{ opacity:0.6 }}>{dict.size.toLocaleString()} words</div>
+                )}
+              </div>
               <div style={{ display:"flex", gap:8, marginBottom:8 }}>
                 <input value={typed} onChange={e=>setTyped(e.target.value)} onKeyDown={e=>{ if(e.key==="Enter") submitWord(typed); }}
+                  onDragOver={e=>e.preventDefault()} onDrop={e=>{ e.preventDefault(); const i = Number(e.dataTransfer.getData("text/x-rack-tile")); if (Number.isInteger(i) && rack[i] && !usedTiles.has(i)) setTyped(typed.toUpperCase() + rack[i]); }}
                   placeholder="Type a word…" style={{ flex:1, padding:"8px 10px", borderRadius:10, border:"1px solid #334155", background:"#0b1220", color:"#e5e7eb" }}/>
                 <button onClick={()=>submitWord(typed)} style={{ padding:"8px 12px", borderRadius:10, background:"#6366f1", border:"none", color:"#fff" }}>Submit</button>
               </div>
+              {wordPreview && (
+                <div style={{ fontSize:12, marginBottom:8, color: wordPreview.ok ? "#bbf7d0" : "#fca5a5" }}>
+                  {wordPreview.ok ? <>Pays {formatChange(wordPreview.score.payout)} <span style={{ opacity:0.7 }}>• {wordPreview.score.lines.join(" • ")}</span></> : wordPreview.reason}
+                </div>
+              )}
               <div style={{ display:"flex", gap:8, flexWrap:"wrap" }}>
                 {rack.map((ch,i)=>(
-                  <div key={i} style={{ width:36, height:44, display:"flex", alignItems:"center", justifyContent:"center", borderRadius:10, border:"1px solid #334155", background:"#0b1220", fontWeight:800 }}>
-                    {ch}
+                  <button key={i} onClick={()=>onRackTile(i)} draggable={!swapping} onDragStart={e=> e.dataTransfer.setData("text/x-rack-tile", String(i))}
+                    title={swapping ? "Pick for swapping" : usedTiles.has(i) ? "Click to take back" : "Click or drag into the word"}
+                    style={{ position:"relative", width:36, height:44, display:"flex", alignItems:"center", justifyContent:"center", borderRadius:10, fontWeight:800, fontSize:16, color:"#e5e7eb", cursor:"pointer",
+                      border: swapping?.has(i) ? "1px solid #fbbf24" : "1px solid #334155", background: !swapping && usedTiles.has(i) ? "#4338ca" : "#0b1220" }}>
+                    {ch}<span style={{ position:"absolute", right:4, bottom:2, fontSize:9, fontWeight:600, opacity:0.6 }}>{letterValue(ch)}</span>
+                  </button>
+                ))}
+              </div>
+              <div style={{ display:"flex", gap:8, marginTop:8, fontSize:12 }}>
+                <button onClick={()=>setRack(shuffleRack(rack))} style={{ padding:"4px 10px", borderRadius:8, background:"#0b1220", border:"1px solid #334155", color:"#e5e7eb" }}>🔀 Shuffle</button>
+                {swapping ? (
+                  <>
+                    <button onClick={swapTiles} disabled={!swapping.size} style={{ padding:"4px 10px", borderRadius:8, background:"#6366f1", border:"none", color:"#fff" }}>
+                      Swap {swapping.size} ({formatChange({}, swapCost(swapping.size))})
+                    </button>
+                    <button onClick={()=>setSwapping(null)} style={{ padding:"4px 10px", borderRadius:8, background:"#0b1220", border:"1px solid #334155", color:"#e5e7eb" }}>Cancel</button>
+                  </>
+                ) : (
+                  <button onClick={()=>{ setSwapping(new Set()); setTyped(""); }} title={`Trade letters back for new ones (${formatChange({}, swapCost(1))} each)`} style={{ padding:"4px 10px", borderRadius:8, background:"#0b1220", border:"1px solid #334155", color:"#e5e7eb" }}>♻ Swap letters…</button>
+                )}
+                <span style={{ marginLeft:"auto", opacity:0.6, alignSelf:"center" }}>{rack.length}/{rackSize(tier, perks.rackSlots)} tiles • {tilesLeftInBag(rackDraws)} in bag</span>
+              </div>
+              {!inDaily && <div style={{ display:"flex", alignItems:"center", gap:6, marginTop:8, fontSize:12 }}>
+                <span style={{ opacity:0.6 }}>Hints:</span>
+                {HINTS.map(h=>{
+                  const cost = hintCost(h.kind, tier);
+                  return (
+                    <button key={h.kind} onClick={()=>buyHint(h.kind)} disabled={!dict || !canAfford(res, cost)} title={`Costs ${formatChange({}, cost)}`}
+                      style={{ padding:"3px 8px", borderRadius:8, background:"#0b1220", border:"1px solid #334155", color:"#e5e7eb", opacity: dict && canAfford(res, cost) ? 1 : 0.5 }}>
+                      {h.name} <span style={{ opacity:0.6 }}>{formatChange({}, cost)}</span>
+                    </button>
+                  );
+                })}
+              </div>}
+              {hint && <div style={{ marginTop:6, fontSize:12, color:"#c4b5fd" }}>💡 {hint}</div>}
+            </div>
+
+            <div style={{ background:"rgba(30,41,59,.6)", border:"1px solid #334155", borderRadius:16, padding:12 }}>
+              <div style={{ marginBottom:8, fontWeight:700 }}>Daily challenge <span style={{ fontSize:11, fontWeight:400, opacity:0.6 }}>{boardDate}</span></div>
+              {daily && dailyScore ? (
+                <>
+                  <div style={{ display:"flex", justifyContent:"space-between", fontSize:12, opacity:0.85 }}><span>Words</span><span>{dailyTurn}/{CHALLENGE_TURNS}</span></div>
+                  <div style={{ height:4, borderRadius:4, background:"#0b1220", marginBottom:8 }}>
+                    <div style={{ height:4, borderRadius:4, width:`${100*dailyTurn/CHALLENGE_TURNS}%`, background:"#f472b6" }} />
+                  </div>
+                  <div style={{ fontSize:12, marginBottom:8 }}>{daily.result ? "Final score" : "Score so far"}: <b>{dailyScore.total}</b> <span style={{ opacity:0.6 }}>• {scoreLines(dailyScore).join(" • ")}</span></div>
+                  <div style={{ display:"flex", gap:8, fontSize:12, marginBottom:8 }}>
+                    {daily.result && <button onClick={()=>exportReplay(daily.result!.replay)} style={{ padding:"4px 10px", borderRadius:8, background:"#6366f1", border:"none", color:"#fff" }}>Export replay</button>}
+                    <button onClick={leaveDaily} style={{ padding:"4px 10px", borderRadius:8, background:"#0b1220", border:"1px solid #334155", color:"#e5e7eb" }}>{daily.result ? "Back to my city" : "Give up"}</button>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div style={{ fontSize:12, opacity:0.7, marginBottom:8 }}>Everyone gets the same map and letters today: {CHALLENGE_TURNS} words, with {TICKS_PER_TURN} economy ticks after each. Scored on citizens, happiness and buildings.</div>
+                  <div style={{ display:"flex", gap:8, marginBottom:8 }}>
+                    <input value={player} onChange={e=>{ setPlayer(e.target.value); savePlayerName(e.target.value); }} maxLength={24} placeholder="Your name…"
+                      style={{ flex:1, padding:"6px 10px", borderRadius:10, border:"1px solid #334155", background:"#0b1220", color:"#e5e7eb" }}/>
+                    <button onClick={startDaily} style={{ padding:"6px 12px", borderRadius:10, background:"#6366f1", border:"none", color:"#fff" }}>Play today's</button>
+                  </div>
+                </>
+              )}
+              <div style={{ display:"grid", gap:4, fontSize:12 }}>
+                {dailyBoard.map((e,k)=>(
+                  <div key={k} title={scoreLines(e.score).join("\n")} style={{ display:"flex", alignItems:"center", gap:8 }}>
+                    <span style={{ width:18, opacity:0.6 }}>{k+1}.</span>
+                    <span style={{ flex:1 }}>{e.replay.name}{e.imported ? <span style={{ opacity:0.5 }}> (imported)</span> : null}</span>
+                    <b>{e.score.total}</b>
+                    <button onClick={()=>exportReplay(e.replay)} title="Export replay" style={{ padding:"0 6px", borderRadius:8, background:"#0b1220", border:"1px solid #334155", color:"#e5e7eb" }}>⬇</button>
                   </div>
                 ))}
+                {!dailyBoard.length && <div style={{ opacity:0.6 }}>No runs yet today.</div>}
               </div>
+              {!inDaily && (
+                <label style={{ display:"inline-block", marginTop:8, fontSize:12, padding:"4px 10px", borderRadius:8, background:"#0b1220", border:"1px solid #334155", color:"#e5e7eb", cursor:"pointer" }}>
+                  Verify a replay…
+                  <input type="file" accept="application/json,.json" style={{ display:"none" }}
+                    onChange={e=>{ onImportReplay(e.target.files?.[0]); e.target.value=""; }} />
+                </label>
+              )}
+            </div>
+
+            <div style={{ background:"rgba(30,41,59,.6)", border:"1px solid #334155", borderRadius:16, padding:12 }}>
+              <div style={{ marginBottom:8, fontWeight:700 }}>Town <span style={{ fontSize:11, fontWeight:400, opacity:0.6 }}>tier {tier}</span></div>
+              {progress ? (
+                <>
+                  {progress.goals.map(goal=>(
+                    <div key={goal.label} style={{ fontSize:12, marginBottom:6 }}>
+                      <div style={{ display:"flex", justifyContent:"space-between", opacity:0.85 }}><span>{goal.label}</span><span>{Math.min(goal.have, goal.need)}/{goal.need}</span></div>
+                      <div style={{ height:4, borderRadius:4, background:"#0b1220" }}>
+                        <div style={{ height:4, borderRadius:4, width:`${Math.min(100, 100*goal.have/goal.need)}%`, background: goal.have>=goal.need ? "#4ade80" : "#6366f1" }} />
+                      </div>
+                    </div>
+                  ))}
+                  <button onClick={advanceTier} disabled={!progress.ready} style={{ marginTop:4, padding:"6px 12px", borderRadius:10, background:"#6366f1", border:"none", color:"#fff" }}>
+                    Advance to tier {progress.next} (-{progress.cost.knowledge}k)
+                  </button>
+                </>
+              ) : <div style={{ fontSize:12, opacity:0.7 }}>Top tier reached.</div>}
             </div>
 
+            {!inDaily && <div style={{ background:"rgba(30,41,59,.6)", border:"1px solid #334155", borderRadius:16, padding:12 }}>
+              <div style={{ marginBottom:8, fontWeight:700 }}>Seasons <span style={{ fontSize:11, fontWeight:400, opacity:0.6 }}>{dateLabel(calendar.clock)}</span></div>
+              <div style={{ height:4, borderRadius:4, background:"#0b1220", marginBottom:8 }}>
+                <div style={{ height:4, borderRadius:4, width:`${100*(calendar.clock % SEASON_TICKS)/SEASON_TICKS}%`, background:"#38bdf8" }} />
+              </div>
+              <div style={{ display:"grid", gap:6, fontSize:12, marginBottom:8 }}>
+                {calendar.events.map((e,k)=> e.kind==="flood" ? (
+                  <div key={k} style={{ display:"flex", alignItems:"center", gap:8 }}>
+                    <div style={{ flex:1 }}>🌊 {e.hit ? `Flooded until the season ends` : `Flood in ${e.at - calendar.clock} ticks • ${threatenedRoads(grid, e.tiles).length} roads at risk`}{e.levees ? " • levees up" : ""}</div>
+                    {!e.hit && !e.levees && (
+                      <button onClick={()=>raiseLevees(k)} disabled={!canAfford(res, leveeCost(grid, e))} style={{ padding:"4px 10px", borderRadius:8, background:"#6366f1", border:"none", color:"#fff" }}>
+                        Levees {formatChange({}, leveeCost(grid, e))}
+                      </button>
+                    )}
+                  </div>
+                ) : (
+                  <div key={k} style={{ display:"flex", alignItems:"center", gap:8 }}>
+                    <div style={{ flex:1 }}>🎉 Harvest festival{e.funded ? " with a feast" : ""}</div>
+                    {!e.funded && (
+                      <button onClick={()=>holdFeast(k)} disabled={!canAfford(res, FEAST_COST)} style={{ padding:"4px 10px", borderRadius:8, background:"#6366f1", border:"none", color:"#fff" }}>
+                        Feast {formatChange({}, FEAST_COST)}
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <div style={{ display:"grid", gap:2, fontSize:11, opacity:0.75, maxHeight:120, overflowY:"auto" }}>
+                {calendar.log.slice().reverse().map((l,k)=>(
+                  <div key={k}><span style={{ opacity:0.6 }}>{dateLabel(l.clock)}:</span> {l.text}</div>
+                ))}
+                {!calendar.log.length && <div>Nothing has happened yet.</div>}
+              </div>
+            </div>}
+
+            {!inDaily && <div style={{ background:"rgba(30,41,59,.6)", border:"1px solid #334155", borderRadius:16, padding:12 }}>
+              <div style={{ marginBottom:8, fontWeight:700 }}>Quests <span style={{ fontSize:11, fontWeight:400, opacity:0.6 }}>{quests.done.length}/{QUESTS.length} complete</span></div>
+              <div style={{ display:"grid", gap:6, fontSize:12 }}>
+                {QUESTS.filter(q=> isOpen(q, quests)).map(q=>{
+                  const { have, need } = questProgress(q, quests, { grid, res, tier, population: econ.population });
+                  return (
+                    <div key={q.id}>
+                      <div style={{ display:"flex", justifyContent:"space-between", opacity:0.85 }}><span>{q.name}</span><span>{Math.min(have, need)}/{need}</span></div>
+                      <div style={{ height:4, borderRadius:4, background:"#0b1220" }}>
+                        <div style={{ height:4, borderRadius:4, width:`${Math.min(100, 100*have/need)}%`, background:"#fbbf24" }} />
+                      </div>
+                      <div style={{ opacity:0.6 }}>Reward: {formatChange(q.reward.res || {})}{q.reward.letters ? ` + tiles ${q.reward.letters.join(" ")}` : ""}</div>
+                    </div>
+                  );
+                })}
+                {quests.done.length===QUESTS.length && <div style={{ opacity:0.7 }}>Every quest complete.</div>}
+              </div>
+            </div>}
+
+            {!inDaily && <div style={{ background:"rgba(30,41,59,.6)", border:"1px solid #334155", borderRadius:16, padding:12 }}>
+              <div style={{ marginBottom:8, fontWeight:700 }}>Research <span style={{ fontSize:11, fontWeight:400, opacity:0.6 }}>{research.length}/{RESEARCH.length} done</span></div>
+              <div style={{ height:6, borderRadius:3, background:"#0b1220", overflow:"hidden", marginBottom:8 }}>
+                <div style={{ width:`${100*research.length/RESEARCH.length}%`, height:"100%", background:"#a78bfa" }} />
+              </div>
+              <div style={{ display:"grid", gap:6, fontSize:12 }}>
+                {RESEARCH.map(node=>{
+                  const done = research.includes(node.id), blocker = researchBlocker(node.id, research, tier);
+                  return (
+                    <div key={node.id} style={{ display:"flex", alignItems:"center", gap:8, opacity: done || !blocker ? 1 : 0.55 }}>
+                      <div style={{ flex:1 }}>
+                        <div style={{ fontWeight:600 }}>{done ? "✓ " : ""}{node.name}</div>
+                        <div style={{ opacity:0.7 }}>{node.desc}{!done && blocker ? ` ${blocker}` : ""}</div>
+                      </div>
+                      {!done && (
+                        <button onClick={()=>startResearch(node.id)} disabled={!!blocker || !canAfford(res, node.cost)}
+                          style={{ padding:"4px 10px", borderRadius:8, background: !blocker && canAfford(res, node.cost) ? "#6366f1" : "#0b1220", border:"1px solid #334155", color:"#e5e7eb" }}>
+                          {formatChange({}, node.cost)}
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>}
+
+            {!inDaily && <div style={{ background:"rgba(30,41,59,.6)", border:"1px solid #334155", borderRadius:16, padding:12 }}>
+              <div style={{ marginBottom:8, fontWeight:700 }}>Spells <span style={{ fontSize:11, fontWeight:400, opacity:0.6 }}>pick one, then click the map</span></div>
+              <div style={{ display:"grid", gridTemplateColumns:"1fr 1fr", gap:8 }}>
+                {SPELLS.map(sp=>{
+                  const active = selected?.id==="__spell__" && (selected as { spell:SpellId }).spell===sp.id;
+                  return (
+                    <button key={sp.id} onClick={()=> sp.radius===undefined ? rerollRack() : setSelected(active ? null : { id:"__spell__", spell:sp.id })}
+                      title={sp.desc} style={{ textAlign:"left", padding:8, borderRadius:12, border:"1px solid #334155", fontSize:12,
+                        background: active ? "#4338ca" : "#0b1220", color:"#e5e7eb", opacity: canAfford(res, sp.cost) ? 1 : 0.55 }}>
+                      <div style={{ fontWeight:600 }}>{sp.icon} {sp.name}</div>
+                      <div style={{ opacity:0.6 }}>{formatChange({}, sp.cost)}{sp.radius!==undefined ? ` • radius ${sp.radius}` : ""}</div>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>}
+
+            {(()=>{
+              const s = inspected!==null ? grid[inspected]?.structure : undefined;
+              const def = s && s.origin===inspected ? CATALOG_BY_ID[s.id] : undefined;
+              if (!s || !def) return null;
+              const next = canUpgrade(def) && s.level < MAX_LEVEL ? upgradeCost(def, s.level) : null;
+              const fmt = (r:Partial<Resources>)=> Object.entries(r).filter(([,v])=>v).map(([k,v])=>`${v} ${k}`).join(", ") || "nothing";
+              return (
+                <div style={{ background:"rgba(30,41,59,.6)", border:"1px solid #334155", borderRadius:16, padding:12 }}>
+                  <div style={{ display:"flex", justifyContent:"space-between", marginBottom:8 }}>
+                    <div style={{ fontWeight:700 }}>{def.name} {canUpgrade(def) && <span style={{ fontSize:11, fontWeight:400, opacity:0.6 }}>level {s.level}/{MAX_LEVEL}</span>}</div>
+                    <button onClick={()=>setInspected(null)} style={{ padding:"0 8px", borderRadius:8, background:"#0b1220", border:"1px solid #334155", color:"#e5e7eb" }}>✕</button>
+                  </div>
+                  <div style={{ fontSize:12, opacity:0.8, display:"grid", gap:2, marginBottom:8 }}>
+                    {def.housing ? <div>Houses {levelScale(def.housing, s.level)}{next ? ` → ${levelScale(def.housing, s.level+1)}` : ""}</div> : null}
+                    {def.produces ? <div>Makes {fmt(scaleAll(def.produces, s.level))}/tick{next ? ` → ${fmt(scaleAll(def.produces, s.level+1))}` : ""}</div> : null}
+                    {def.consumes ? <div>Uses {fmt(scaleAll(def.consumes, s.level))}/tick</div> : null}
+                    {def.bonus ? <div>{def.bonus.biome[0].toUpperCase()+def.bonus.biome.slice(1)} bonus: {fmt(adjacencyBonus(grid, GRID_SIZE, def, inspected!) || {})}/tick</div> : null}
+                    {!network.active.has(inspected!) ? <div style={{ color:"#fca5a5" }}>Inactive: no road link to the town centre</div>
+                      : def.workers ? <div>{econ.staffed.has(inspected!) ? "Staffed" : "Idle: needs"} {def.workers} workers</div> : null}
+                  </div>
+                  {next ? (
+                    <button onClick={()=>upgradeBuilding(inspected!)} disabled={!canAfford(res, next)} style={{ padding:"6px 12px", borderRadius:10, background:"#6366f1", border:"none", color:"#fff" }}>
+                      Upgrade: {fmt(next)}
+                    </button>
+                  ) : <div style={{ fontSize:12, opacity:0.7 }}>{canUpgrade(def) ? "Max level." : "Can't be upgraded."}</div>}
+                </div>
+              );
+            })()}
+
             <div style={{ background:"rgba(30,41,59,.6)", border:"1px solid #334155", borderRadius:16, padding:12 }}>
               <div style={{ marginBottom:8, fontWeight:700 }}>Build</div>
               <div style={{ display:"grid", gridTemplateColumns:"1fr 1fr", gap:8 }}>
-                <button onClick={()=> setSelected({ id:"__road__" })} style={{
+                <button onClick={()=> setSelected(sel=> sel?.id==="__road__" ? null : { id:"__road__" })} style={{
                   textAlign:"left", padding:12, borderRadius:12, border:"1px solid #334155",
-                  background: selected && (selected as any).id==="__road__" ? "#4338ca" : "#0b1220", color:"#e5e7eb"
+                  background: selected?.id==="__road__" ? "#4338ca" : "#0b1220", color:"#e5e7eb"
                 }}>
                   <div style={{ fontSize:18 }}>🛣️</div><div style={{ fontWeight:600 }}>Road / Bridge</div>
+                  <div style={{ fontSize:11, opacity:0.6 }}>Road {formatChange({}, ROAD_COST.meadow)} (more on hill/marsh) • bridge {formatChange({}, bridgeCost(perks))}</div>
                 </button>
-                {CATALOG.filter(b=> b.tier<=tier).map(b=>(
-                  <button key={b.id} onClick={()=> setSelected(b)} style={{
+                {!inDaily && ([["__line__","📏","Road line","Click two tiles to join them"],["__clear__","🧹","Clear area","Click two corners to bulldoze"]] as const).map(([id,icon,name,hint])=>(
+                  <button key={id} onClick={()=> setSelected(sel=> sel?.id===id ? null : { id })} style={{
                     textAlign:"left", padding:12, borderRadius:12, border:"1px solid #334155",
-                    background: selected && (selected as any).id===b.id ? "#4338ca" : "#0b1220", color:"#e5e7eb"
+                    background: selected?.id===id ? "#4338ca" : "#0b1220", color:"#e5e7eb"
+                  }}>
+                    <div style={{ fontSize:18 }}>{icon}</div><div style={{ fontWeight:600 }}>{name}</div>
+                    <div style={{ fontSize:11, opacity:0.6 }}>{hint}</div>
+                  </button>
+                ))}
+                {CATALOG.filter(b=> isAvailable(b, tier, perks)).map(b=>(
+                  <button key={b.id} onClick={()=> setSelected(sel=> sel?.id===b.id ? null : b)} style={{
+                    textAlign:"left", padding:12, borderRadius:12, border:"1px solid #334155",
+                    background: selected?.id===b.id ? "#4338ca" : "#0b1220", color:"#e5e7eb"
                   }}>
                     <div style={{ fontWeight:600 }}>{b.name}</div>
                     <div style={{ fontSize:11, opacity:0.75 }}>T{b.tier} • {b.w}×{b.h}</div>
                     <div style={{ fontSize:11, opacity:0.6 }}>
-                      Cost: {b.cost.coin||0}c {b.cost.lumber||0}l {b.cost.stone||0}s
+                      Cost: {formatChange({}, b.cost)}
+                    </div>
+                    <div style={{ fontSize:11, opacity:0.6 }}>
+                      {b.housing ? `Houses ${b.housing}` : `${b.workers||0} workers`}
+                      {b.produces ? ` • ${b.consumes ? "turns " + Object.entries(b.consumes).map(([k,v])=>`${v} ${k}`).join("+") + " into " : "+"}${Object.entries(b.produces).map(([k,v])=>`${v} ${k}`).join(" ")}/tick` : ""}
                     </div>
                   </button>
                 ))}
               </div>
             </div>
+
+            {!inDaily && <div style={{ background:"rgba(30,41,59,.6)", border:"1px solid #334155", borderRadius:16, padding:12 }}>
+              <div style={{ marginBottom:8, fontWeight:700 }}>Saves <span style={{ fontSize:11, fontWeight:400, opacity:0.6 }}>autosaved</span></div>
+              <div style={{ display:"flex", gap:8, marginBottom:8 }}>
+                <input value={slotName} onChange={e=>setSlotName(e.target.value)} onKeyDown={e=>{ if(e.key==="Enter") onSaveSlot(); }}
+                  placeholder="Slot name…" style={{ flex:1, padding:"6px 10px", borderRadius:10, border:"1px solid #334155", background:"#0b1220", color:"#e5e7eb" }}/>
+                <button onClick={onSaveSlot} style={{ padding:"6px 12px", borderRadius:10, background:"#6366f1", border:"none", color:"#fff" }}>Save</button>
+              </div>
+              {slots.map(s=>(
+                <div key={s.name} style={{ display:"flex", alignItems:"center", gap:8, fontSize:12, marginBottom:4 }}>
+                  <div style={{ flex:1 }}>{s.name} <span style={{ opacity:0.5 }}>{new Date(s.savedAt).toLocaleString()}</span></div>
+                  <button onClick={()=>onLoadSlot(s.name)} style={{ padding:"2px 8px", borderRadius:8, background:"#0b1220", border:"1px solid #334155", color:"#e5e7eb" }}>Load</button>
+                  <button onClick={()=>onDeleteSlot(s.name)} style={{ padding:"2px 8px", borderRadius:8, background:"#0b1220", border:"1px solid #334155", color:"#e5e7eb" }}>✕</button>
+                </div>
+              ))}
+              <div style={{ display:"flex", gap:8, marginTop:8, fontSize:12 }}>
+                <button onClick={()=>exportSave(snapshot())} style={{ padding:"6px 12px", borderRadius:10, background:"#0b1220", border:"1px solid #334155", color:"#e5e7eb" }}>Export JSON</button>
+                <label style={{ padding:"6px 12px", borderRadius:10, background:"#0b1220", border:"1px solid #334155", cursor:"pointer" }}>
+                  Import JSON
+                  <input type="file" accept="application/json,.json" style={{ display:"none" }}
+                    onChange={e=>{ onImport(e.target.files?.[0]); e.target.value=""; }} />
+                </label>
+              </div>
+            </div>}
           </div>
         </div>
 
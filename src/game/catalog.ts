@@ -0,0 +1,28 @@
+import type { Building } from "./types";
+
+export const CATALOG: Building[] = [
+  { id: "cottage", name: "Cottage", icon: "cottage", tier: 1, w: 1, h: 1, cost: { coin: 10, lumber: 8 }, happiness: 1, housing: 3 },
+  { id: "sawmill", name: "Sawmill", icon: "sawmill", tier: 1, w: 2, h: 2, cost: { coin: 25, lumber: 12, stone: 5 }, workers: 2, produces: { lumber: 2 }, nuisance: 2,
+    bonus: { biome: "forest", every: 2, gives: { lumber: 1 } } },
+  { id: "quarry",  name: "Quarry",  icon: "quarry",  tier: 1, w: 2, h: 2, cost: { coin: 25, stone: 15 }, workers: 2, produces: { stone: 2 }, nuisance: 2,
+    rules: [{ kind: "touches", biome: "hill" }] },
+  { id: "market",  name: "Market",  icon: "market",  tier: 2, w: 3, h: 2, cost: { coin: 60, stone: 10 }, workers: 3, consumes: { lumber: 1, stone: 1 }, produces: { coin: 5 }, serves: 6 },
+  { id: "library", name: "Library", icon: "library", tier: 2, w: 2, h: 2, cost: { coin: 50, lumber: 15, stone: 10 }, workers: 2, produces: { knowledge: 1 }, serves: 5 },
+  { id: "pier",    name: "Pier",    icon: "pier",    tier: 2, w: 2, h: 1, cost: { coin: 40, lumber: 10 }, workers: 1, produces: { coin: 1 },
+    rules: [{ kind: "shore" }] },
+  { id: "townhall", name: "Town Hall",    icon: "townhall", tier: 3, w: 3, h: 3, cost: { coin: 150, lumber: 40, stone: 60 }, happiness: 5, workers: 4, produces: { coin: 3 }, serves: 10 },
+  { id: "wizard",   name: "Wizard Tower", icon: "wizard",   tier: 3, w: 2, h: 2, cost: { coin: 120, stone: 40, knowledge: 20 }, workers: 2, consumes: { knowledge: 1 }, produces: { magic: 1 } },
+  { id: "harbor",   name: "Harbor",       icon: "harbor",   tier: 3, w: 3, h: 2, cost: { coin: 140, lumber: 50, stone: 20 }, workers: 4, produces: { coin: 4, lumber: 1 },
+    rules: [{ kind: "shore" }] },
+  // Unlocked by research
+  { id: "orchard",     name: "Orchard",     icon: "orchard",     tier: 1, w: 2, h: 2, cost: { coin: 20, lumber: 6 }, happiness: 1, workers: 1, produces: { coin: 1 }, research: true },
+  { id: "observatory", name: "Observatory", icon: "observatory", tier: 2, w: 2, h: 2, cost: { coin: 70, lumber: 10, stone: 25 }, workers: 2, produces: { knowledge: 2 }, research: true,
+    rules: [{ kind: "touches", biome: "hill" }] },
+];
+
+/* Placed at world creation; not in the build menu and can't be demolished */
+export const TOWN_CENTRE: Building = {
+  id: "centre", name: "Town Centre", icon: "centre", tier: 1, w: 2, h: 2, cost: {}, happiness: 2, housing: 4,
+};
+
+export const CATALOG_BY_ID: Record<string, Building> = Object.fromEntries([...CATALOG, TOWN_CENTRE].map(b => [b.id, b]));
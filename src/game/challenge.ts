@@ -0,0 +1,241 @@
+import type { Resources, Tier, Tile } from "./types";
+import { CATALOG_BY_ID, TOWN_CENTRE } from "./catalog";
+import { emptyResources, canAfford, pay, gain, formatChange } from "./resources";
+import { computeEconomy, placedBuildings, runTick } from "./economy";
+import { computeHappiness, happinessMultiplier } from "./happiness";
+import { checkPlacement, placeBuilding } from "./placement";
+import { editRoad } from "./roads";
+import { DEFAULT_RACK_SIZE, rackSize, drawTiles, canFormFromRack, countChars, swapCost } from "./rack";
+import { scoreWord } from "./scoring";
+import { minWordLength, tierProgress } from "./tiers";
+import { MAX_LEVEL, canUpgrade, upgradeAt, upgradeCost } from "./upgrades";
+import { NO_PERKS, isAvailable } from "./research";
+import { freshGrid } from "./terrain";
+import { gridSize } from "./grid";
+
+/* ============ Daily challenge ============ */
+
+export const CHALLENGE_TURNS = 15;   // words per run
+export const TICKS_PER_TURN = 3;     // the economy runs between words instead of on a timer
+
+/* Today's date in UTC, so everyone gets the same map on the same day */
+export const challengeDate = (now = new Date()) => now.toISOString().slice(0, 10);
+export const challengeSeed = (date: string) => `daily-${date}`;
+
+/* Everything a run can do. A run is only these, applied in order, so a list of them is a replay. */
+export type ChallengeAction =
+  | { t: "w"; word: string }                                    // spell a word (ends the turn)
+  | { t: "b"; id: string; at: number }                          // place a building
+  | { t: "r"; at: number; mode: "road" | "bridge" | "remove" }  // one road-tool click
+  | { t: "s"; letters: string }                                 // swap these rack letters
+  | { t: "u"; at: number }                                      // upgrade the building at this origin
+  | { t: "t" };                                                 // advance a tier
+
+/* No research, spells, hints, quests or seasons in a run: they'd all need replaying too */
+export type ChallengeState = { seed: string; grid: Tile[]; res: Resources; rack: string[]; rackDraws: number; tier: Tier; turn: number };
+
+/* An empty `reason` is a harmless no-op, as with the road tool */
+export type ChallengeStep = { ok: true; state: ChallengeState; text: string } | { ok: false; reason: string };
+
+export function startChallenge(date: string, size: number): ChallengeState {
+  const seed = challengeSeed(date);
+  const { letters, next } = drawTiles(seed, 0, DEFAULT_RACK_SIZE);
+  return { seed, grid: freshGrid(seed, size), res: emptyResources(), rack: letters, rackDraws: next, tier: 1, turn: 0 };
+}
+
+/* Apply one action with the sandbox rules. `isWord` checks the dictionary; without it any
+   rack-formable word passes (e.g. verifying a replay made with another word list). */
+export function applyAction(s: ChallengeState, a: ChallengeAction, isWord?: (word: string) => boolean): ChallengeStep {
+  if (s.turn >= CHALLENGE_TURNS) return { ok: false, reason: "The challenge is over." };
+  const size = gridSize(s.grid);
+
+  switch (a.t) {
+    case "w": {
+      const word = a.word;
+      if (word.length < minWordLength(s.tier)) return { ok: false, reason: "Word too short for this tier." };
+      if (!canFormFromRack(word, s.rack)) return { ok: false, reason: "Can't form from rack." };
+      if (isWord && !isWord(word)) return { ok: false, reason: "Not in dictionary." };
+      const mood = happinessMultiplier(computeHappiness(s.grid, size, computeEconomy(s.grid, s.res)).score);
+      const { payout } = scoreWord(word, s.rack.length, mood);
+      const need = countChars(word), keep: string[] = [];
+      for (const ch of s.rack) { if (need[ch]) need[ch]--; else keep.push(ch); }
+      const { letters, next } = drawTiles(s.seed, s.rackDraws, Math.max(0, rackSize(s.tier) - keep.length), keep);
+      let res = gain(s.res, payout);
+      for (let k = 0; k < TICKS_PER_TURN; k++) res = runTick(s.grid, res);
+      const turn = s.turn + 1;
+      return { ok: true, state: { ...s, res, rack: [...keep, ...letters], rackDraws: next, turn }, text: `"${word}" (${formatChange(payout)}) • turn ${turn}/${CHALLENGE_TURNS}` };
+    }
+    case "b": {
+      const def = CATALOG_BY_ID[a.id];
+      if (!def || def.id === TOWN_CENTRE.id || !isAvailable(def, s.tier, NO_PERKS)) return { ok: false, reason: "Not unlocked yet." };
+      const check = checkPlacement(s.grid, size, def, a.at);
+      if (!check.ok) return check;
+      if (!canAfford(s.res, check.cost)) return { ok: false, reason: "Not enough resources." };
+      return { ok: true, state: { ...s, grid: placeBuilding(s.grid, size, def, a.at), res: pay(s.res, check.cost) }, text: `${def.name} built (${formatChange({}, check.cost)})` };
+    }
+    case "r": {
+      const edit = editRoad(s.grid, size, a.at, { bridgeMode: a.mode === "bridge", removeMode: a.mode === "remove" });
+      if (!edit.ok) return edit;
+      if (!canAfford(s.res, edit.cost)) return { ok: false, reason: `Not enough resources for a ${edit.label} (${formatChange({}, edit.cost)}).` };
+      const label = edit.label[0].toUpperCase() + edit.label.slice(1);
+      return { ok: true, state: { ...s, grid: edit.grid, res: gain(pay(s.res, edit.cost), edit.refund) }, text: `${label} (${formatChange(edit.refund, edit.cost)})` };
+    }
+    case "s": {
+      const n = a.letters.length, cost = swapCost(n);
+      if (!n || !canFormFromRack(a.letters, s.rack)) return { ok: false, reason: "Those letters aren't on the rack." };
+      if (!canAfford(s.res, cost)) return { ok: false, reason: `Not enough resources to swap (${formatChange({}, cost)}).` };
+      const give = countChars(a.letters), keep: string[] = [];
+      for (const ch of s.rack) { if (give[ch]) give[ch]--; else keep.push(ch); }
+      const { letters, next } = drawTiles(s.seed, s.rackDraws, n, keep);
+      return { ok: true, state: { ...s, res: pay(s.res, cost), rack: [...keep, ...letters], rackDraws: next }, text: `Swapped ${n} letter${n > 1 ? "s" : ""} (${formatChange({}, cost)})` };
+    }
+    case "u": {
+      const st = s.grid[a.at]?.structure, def = st && st.origin === a.at ? CATALOG_BY_ID[st.id] : undefined;
+      if (!st || !def) return { ok: false, reason: "No building there." };
+      if (!canUpgrade(def)) return { ok: false, reason: `The ${def.name.toLowerCase()} can't be upgraded.` };
+      if (st.level >= MAX_LEVEL) return { ok: false, reason: `${def.name} is already at max level.` };
+      const cost = upgradeCost(def, st.level);
+      if (!canAfford(s.res, cost)) return { ok: false, reason: "Not enough resources." };
+      return { ok: true, state: { ...s, grid: upgradeAt(s.grid, a.at), res: pay(s.res, cost) }, text: `${def.name} upgraded to level ${st.level + 1} (${formatChange({}, cost)})` };
+    }
+    case "t": {
+      const progress = tierProgress(s.tier, s.grid, computeEconomy(s.grid, s.res), s.res);
+      if (!progress?.ready) return { ok: false, reason: "Not ready for the next tier yet." };
+      const tier = progress.next, extra = Math.max(0, rackSize(tier) - s.rack.length);
+      const { letters, next } = drawTiles(s.seed, s.rackDraws, extra, s.rack);
+      return { ok: true, state: { ...s, res: pay(s.res, progress.cost), tier, rack: [...s.rack, ...letters], rackDraws: next }, text: `Tier ${tier} reached (${formatChange({}, progress.cost)})` };
+    }
+  }
+}
+
+/* ============ Score ============ */
+
+const POINTS = { citizen: 10, happiness: 5, building: 20 };
+
+export type ChallengeScore = { population: number; happiness: number; buildings: number; total: number };
+
+/* Final score from the city itself; resources left over don't count */
+export function challengeScore(grid: Tile[], res: Resources): ChallengeScore {
+  const econ = computeEconomy(grid, res);
+  const happiness = computeHappiness(grid, gridSize(grid), econ).score;
+  const buildings = placedBuildings(grid).filter(b => b.def.id !== TOWN_CENTRE.id).length;
+  const total = econ.population * POINTS.citizen + happiness * POINTS.happiness + buildings * POINTS.building;
+  return { population: econ.population, happiness, buildings, total };
+}
+
+export const scoreLines = (s: ChallengeScore) => [
+  `${s.population} citizens ×${POINTS.citizen}`, `${s.happiness} happiness ×${POINTS.happiness}`, `${s.buildings} buildings ×${POINTS.building}`,
+];
+
+/* ============ Replays ============ */
+
+export const REPLAY_VERSION = 1;
+
+/* `actions` is the compact form below, e.g. "wSTONE bcottage@1210 r1211 rb1320 sQX u1210 t" */
+export type Replay = { v: typeof REPLAY_VERSION; date: string; list: string; name: string; score: number; actions: string };
+
+export function encodeActions(actions: ChallengeAction[]): string {
+  return actions.map(a => {
+    switch (a.t) {
+      case "w": return `w${a.word}`;
+      case "b": return `b${a.id}@${a.at}`;
+      case "r": return `r${a.mode === "bridge" ? "b" : a.mode === "remove" ? "x" : ""}${a.at}`;
+      case "s": return `s${a.letters}`;
+      case "u": return `u${a.at}`;
+      case "t": return "t";
+    }
+  }).join(" ");
+}
+
+function fail(msg: string): never { throw new Error(`Invalid replay: ${msg}`); }
+
+export function decodeActions(text: string): ChallengeAction[] {
+  return text.split(" ").filter(Boolean).map(tok => {
+    let m: RegExpMatchArray | null;
+    if ((m = tok.match(/^w([A-Z]+)$/))) return { t: "w", word: m[1] };
+    if ((m = tok.match(/^b([a-z]+)@(\d+)$/))) return { t: "b", id: m[1], at: Number(m[2]) };
+    if ((m = tok.match(/^r([bx]?)(\d+)$/))) return { t: "r", at: Number(m[2]), mode: m[1] === "b" ? "bridge" : m[1] === "x" ? "remove" : "road" };
+    if ((m = tok.match(/^s([A-Z]+)$/))) return { t: "s", letters: m[1] };
+    if ((m = tok.match(/^u(\d+)$/))) return { t: "u", at: Number(m[1]) };
+    if (tok === "t") return { t: "t" };
+    fail(`unknown action "${tok}"`);
+  });
+}
+
+export function parseReplay(raw: unknown): Replay {
+  const r = raw as Partial<Replay> | null;
+  if (typeof r !== "object" || r === null) fail("not an object");
+  if (r.v !== REPLAY_VERSION) fail(`unsupported version ${r.v}`);
+  if (typeof r.date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(r.date)) fail("bad date");
+  if (typeof r.list !== "string" || typeof r.name !== "string") fail("missing word list or name");
+  if (typeof r.score !== "number" || !Number.isInteger(r.score)) fail("bad score");
+  if (typeof r.actions !== "string") fail("missing actions");
+  decodeActions(r.actions);
+  return { v: r.v, date: r.date, list: r.list, name: r.name.slice(0, 24), score: r.score, actions: r.actions };
+}
+
+export async function importReplay(file: File): Promise<Replay> {
+  let raw: unknown;
+  try { raw = JSON.parse(await file.text()); }
+  catch { fail("file is not JSON"); }
+  return parseReplay(raw);
+}
+
+export type Verdict = { ok: true; score: ChallengeScore } | { ok: false; reason: string };
+
+/* Re-simulate a replay from the day's seed and check it finishes with the score it claims */
+export function verifyReplay(replay: Replay, size: number, isWord?: (word: string) => boolean): Verdict {
+  let s = startChallenge(replay.date, size);
+  const actions = decodeActions(replay.actions);
+  for (let k = 0; k < actions.length; k++) {
+    const step = applyAction(s, actions[k], isWord);
+    if (!step.ok) return { ok: false, reason: `action ${k + 1} (${encodeActions([actions[k]])}) fails: ${step.reason || "does nothing"}` };
+    s = step.state;
+  }
+  if (s.turn < CHALLENGE_TURNS) return { ok: false, reason: `the run stops after ${s.turn} of ${CHALLENGE_TURNS} turns` };
+  const score = challengeScore(s.grid, s.res);
+  if (score.total !== replay.score) return { ok: false, reason: `it claims ${replay.score} points but replays to ${score.total}` };
+  return { ok: true, score };
+}
+
+/* ============ Local leaderboard ============ */
+
+export type LeaderboardEntry = { replay: Replay; score: ChallengeScore; imported: boolean };
+
+const BOARD_KEY = "wordcity:daily";
+const PLAYER_KEY = "wordcity:player";
+const BOARD_LIMIT = 50;
+
+/* Stored entries are trusted no further than their shape; one that doesn't add up is dropped */
+const isCount = (n: unknown): n is number => typeof n === "number" && Number.isInteger(n) && n >= 0;
+
+function parseEntry(raw: unknown): LeaderboardEntry {
+  const e = raw as Partial<LeaderboardEntry> | null;
+  if (typeof e !== "object" || e === null) fail("not an object");
+  const replay = parseReplay(e.replay), sc = e.score;
+  if (!sc || !isCount(sc.population) || !isCount(sc.happiness) || !isCount(sc.buildings) || !isCount(sc.total)) fail("bad score");
+  if (sc.total !== replay.score) fail(`score ${sc.total} doesn't match the replay's ${replay.score}`);
+  return { replay, score: { population: sc.population, happiness: sc.happiness, buildings: sc.buildings, total: sc.total }, imported: !!e.imported };
+}
+
+export function loadLeaderboard(): LeaderboardEntry[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(BOARD_KEY) || "[]");
+    return Array.isArray(raw) ? raw.flatMap(e => { try { return [parseEntry(e)]; } catch { return []; } }) : [];
+  } catch { return []; }
+}
+
+/* Best first; the same run imported twice is kept once */
+export function addToLeaderboard(entry: LeaderboardEntry): LeaderboardEntry[] {
+  const same = (e: LeaderboardEntry) => e.replay.date === entry.replay.date && e.replay.name === entry.replay.name && e.replay.actions === entry.replay.actions;
+  const board = [...loadLeaderboard().filter(e => !same(e)), entry].sort((a, b) => b.score.total - a.score.total).slice(0, BOARD_LIMIT);
+  try { localStorage.setItem(BOARD_KEY, JSON.stringify(board)); } catch { /* quota / private mode */ }
+  return board;
+}
+
+export function savedPlayerName() {
+  try { return localStorage.getItem(PLAYER_KEY) || "Me"; } catch { return "Me"; }
+}
+export function savePlayerName(name: string) {
+  try { localStorage.setItem(PLAYER_KEY, name); } catch { /* private mode */ }
+}
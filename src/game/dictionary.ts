@@ -0,0 +1,64 @@
+import type { Trie } from "./trie";
+import { buildTrie, trieHas } from "./trie";
+
+/* ============ Dictionary ============ */
+
+export type WordListId = "enable" | "common";
+export const WORD_LISTS: { id: WordListId; name: string; path: string; hint: string }[] = [
+  { id: "enable", name: "Full", path: "/words-enable.txt", hint: "ENABLE list, every word a word game would take" },
+  { id: "common", name: "Common", path: "/words-common.txt", hint: "About 10k everyday words (SCOWL size 20) plus the city's own; easy mode, no obscure words" },
+];
+export const DEFAULT_WORD_LIST: WordListId = "enable";
+
+/* Used when a list can't be loaded, so the game stays playable */
+export const FALLBACK_WORDS = ["STONE", "MAGIC", "GARDEN", "BRIDGE", "LIBRARY", "RIVER", "MARKET", "COTTAGE"];
+
+export type Dictionary = {
+  list: WordListId;
+  trie: Trie;
+  size: number;
+  fallback: string | null;   // why the fallback words are in use, null when the list loaded
+};
+
+export const hasWord = (dict: Dictionary, word: string) => trieHas(dict.trie, word);
+
+export function fallbackDictionary(list: WordListId, why: string): Dictionary {
+  const trie = buildTrie(FALLBACK_WORDS);
+  return { list, trie, size: trie.words, fallback: why };
+}
+
+/* Messages between loadDictionary and dictionary.worker.ts */
+export type WorkerRequest = { path: string };
+export type WorkerReply =
+  | { type: "progress"; share: number }
+  | { type: "done"; trie: Trie }
+  | { type: "error"; message: string };
+
+/* Load and pack a word list in a worker; never rejects (falls back instead). Call the returned
+   function to abandon the load, e.g. when the player picks another list first. */
+export function loadDictionary(list: WordListId, onProgress: (share: number) => void, onDone: (dict: Dictionary) => void): () => void {
+  const path = WORD_LISTS.find(l => l.id === list)?.path ?? WORD_LISTS[0].path;
+  let worker: Worker;
+  try { worker = new Worker(new URL("./dictionary.worker.ts", import.meta.url), { type: "module" }); }
+  catch { onDone(fallbackDictionary(list, "this browser can't load word lists in the background")); return () => {}; }
+
+  worker.onmessage = (e: MessageEvent<WorkerReply>) => {
+    const m = e.data;
+    if (m.type === "progress") return onProgress(m.share);
+    worker.terminate();
+    onDone(m.type === "done" ? { list, trie: m.trie, size: m.trie.words, fallback: null } : fallbackDictionary(list, m.message));
+  };
+  worker.onerror = e => { worker.terminate(); onDone(fallbackDictionary(list, e.message || "the word list worker crashed")); };
+  worker.postMessage({ path } satisfies WorkerRequest);
+  return () => worker.terminate();
+}
+
+/* The player's list choice survives reloads */
+const LIST_KEY = "wordcity:wordlist";
+export function savedWordList(): WordListId {
+  try { const v = localStorage.getItem(LIST_KEY); return WORD_LISTS.some(l => l.id === v) ? v as WordListId : DEFAULT_WORD_LIST; }
+  catch { return DEFAULT_WORD_LIST; }
+}
+export function saveWordList(list: WordListId) {
+  try { localStorage.setItem(LIST_KEY, list); } catch { /* private mode */ }
+}
@@ -0,0 +1,38 @@
+import { buildTrie } from "./trie";
+import type { WorkerReply, WorkerRequest } from "./dictionary";
+
+/* Fetch a word list and pack it into a trie off the main thread */
+
+const ctx = self as unknown as { postMessage(msg: WorkerReply, transfer?: Transferable[]): void; onmessage: ((e: MessageEvent<WorkerRequest>) => void) | null };
+const DOWNLOAD_SHARE = 0.6;   // progress bar split between downloading and parsing
+
+async function fetchText(path: string): Promise<string> {
+  const res = await fetch(path, { cache: "no-store" });
+  if (!res.ok) throw new Error(`${path} returned ${res.status}`);
+  const total = Number(res.headers.get("content-length")) || 0;
+  if (!res.body || !total) return res.text();
+
+  const reader = res.body.getReader(), chunks: Uint8Array[] = [];
+  let loaded = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value); loaded += value.length;
+    ctx.postMessage({ type: "progress", share: DOWNLOAD_SHARE * Math.min(1, loaded / total) });
+  }
+  const bytes = new Uint8Array(loaded);
+  let at = 0; chunks.forEach(c => { bytes.set(c, at); at += c.length; });
+  return new TextDecoder().decode(bytes);
+}
+
+ctx.onmessage = async e => {
+  try {
+    const text = await fetchText(e.data.path);
+    const words = text.split(/\r?\n/).map(w => w.trim().toUpperCase()).filter(w => /^[A-Z]{3,}$/.test(w));
+    if (!words.length) throw new Error(`${e.data.path} has no usable words`);
+    const trie = buildTrie(words, share => ctx.postMessage({ type: "progress", share: DOWNLOAD_SHARE + (1 - DOWNLOAD_SHARE) * share }));
+    ctx.postMessage({ type: "done", trie }, [trie.letter.buffer, trie.child.buffer, trie.sibling.buffer, trie.terminal.buffer]);
+  } catch (err) {
+    ctx.postMessage({ type: "error", message: (err as Error).message });
+  }
+};
@@ -0,0 +1,82 @@
+import type { Building, Resources, Structure, Tile } from "./types";
+import { CATALOG_BY_ID } from "./catalog";
+import { RESOURCE_KEYS, canAfford, emptyResources, gain, pay } from "./resources";
+import { levelScale, scaleAll } from "./upgrades";
+import { adjacencyBonus } from "./placement";
+import { gridSize } from "./grid";
+import { computeNetwork } from "./network";
+import type { Perks } from "./research";
+import { SEASON_OUTPUT, Season } from "./seasons";
+
+/* ============ Production economy ============ */
+
+export const TICK_MS = 2000;           // one simulation tick at 1x speed
+export const SPEEDS = [1, 2, 4] as const;
+
+export type PlacedBuilding = { def: Building; structure: Structure; origin: number };
+
+export type Economy = {
+  population: number;        // citizens housed by cottages
+  jobs: number;              // workers all workplaces would like
+  employed: number;
+  staffed: Set<number>;      // origins of workplaces that run this tick
+  active: Set<number>;       // origins of buildings connected to the town centre
+  yields: Resources;         // net change per tick (production minus what converters consume)
+};
+
+/* Every building on the map once (from its anchor tile), joined with its catalog entry */
+export function placedBuildings(grid: Tile[]): PlacedBuilding[] {
+  const out: PlacedBuilding[] = [];
+  grid.forEach((t, i) => {
+    const s = t.structure;
+    if (!s || !s.anchor) return;
+    const def = CATALOG_BY_ID[s.id];
+    if (def) out.push({ def, structure: s, origin: i });
+  });
+  return out;
+}
+
+/* Only buildings on the town's road network count. Staff workplaces in map order
+   (a workplace needs its full crew), then run producers before converters. The season
+   scales what producers make (e.g. winter lumber). */
+export function computeEconomy(grid: Tile[], res: Resources, perks?: Perks, season?: Season): Economy {
+  const size = gridSize(grid);
+  const { active } = computeNetwork(grid, size);
+  const buildings = placedBuildings(grid).filter(b => active.has(b.origin));
+  const population = buildings.reduce((n, b) => n + levelScale(b.def.housing || 0, b.structure.level), 0);
+  const workplaces = buildings.filter(b => b.def.workers);
+  const jobs = workplaces.reduce((n, b) => n + (b.def.workers || 0), 0);
+
+  let free = population;
+  const staffed = new Set<number>();
+  for (const b of workplaces) {
+    const need = b.def.workers || 0;
+    if (need > free) continue;
+    free -= need; staffed.add(b.origin);
+  }
+
+  const running = workplaces.filter(b => staffed.has(b.origin));
+  let pool = { ...res };
+  const yields = emptyResources();
+  for (const b of running) {
+    if (b.def.consumes) continue;
+    const output = gain({ ...emptyResources(), ...scaleAll(b.def.produces, b.structure.level) }, adjacencyBonus(grid, size, b.def, b.origin) || {});
+    if (perks?.extraOutput) (Object.keys(b.def.produces || {}) as (keyof Resources)[]).forEach(k => output[k] += perks.extraOutput);
+    if (season) (Object.keys(SEASON_OUTPUT[season]) as (keyof Resources)[]).forEach(k => output[k] = Math.floor(output[k] * SEASON_OUTPUT[season][k]!));
+    pool = gain(pool, output);
+    RESOURCE_KEYS.forEach(k => yields[k] += output[k] || 0);
+  }
+  for (const b of running) {
+    if (!b.def.consumes) continue;
+    const input = scaleAll(b.def.consumes, b.structure.level), output = scaleAll(b.def.produces, b.structure.level);
+    if (!canAfford(pool, input)) continue;
+    pool = gain(pay(pool, input), output);
+    RESOURCE_KEYS.forEach(k => yields[k] += (output[k] || 0) - (input[k] || 0));
+  }
+
+  return { population, jobs, employed: population - free, staffed, active, yields };
+}
+
+export function runTick(grid: Tile[], res: Resources, perks?: Perks, season?: Season): Resources {
+  return gain(res, computeEconomy(grid, res, perks, season).yields);
+}
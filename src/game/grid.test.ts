@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { screenToWorld, tileAt, xyToIdx } from "./grid";
+
+const T = 28, N = 10;
+
+describe("tileAt", () => {
+  it("maps world pixels to row-major tile indices", () => {
+    expect(tileAt(0, 0, T, N)).toBe(0);
+    expect(tileAt(T * 3 + 5, T * 2 + 27, T, N)).toBe(xyToIdx(3, 2, N));
+  });
+
+  it("puts tile edges in the tile they start", () => {
+    expect(tileAt(T - 0.001, 0, T, N)).toBe(0);
+    expect(tileAt(T, 0, T, N)).toBe(1);
+    expect(tileAt(0, T, T, N)).toBe(N);
+  });
+
+  it("covers the last row and column up to the map's far edge", () => {
+    expect(tileAt(N * T - 1, N * T - 1, T, N)).toBe(N * N - 1);
+    expect(tileAt(N * T, 0, T, N)).toBeNull();
+    expect(tileAt(0, N * T, T, N)).toBeNull();
+  });
+
+  it("is null left of or above the map", () => {
+    expect(tileAt(-0.5, 10, T, N)).toBeNull();
+    expect(tileAt(10, -0.5, T, N)).toBeNull();
+    expect(tileAt(-T * 2, -T * 2, T, N)).toBeNull();
+  });
+
+  it("is null far off the grid", () => {
+    expect(tileAt(1e6, 10, T, N)).toBeNull();
+    expect(tileAt(10, 1e6, T, N)).toBeNull();
+  });
+});
+
+describe("tileAt through the camera", () => {
+  const under = (sx: number, sy: number, cam: { x: number; y: number; scale: number }) => {
+    const p = screenToWorld(sx, sy, cam);
+    return tileAt(p.x, p.y, T, N);
+  };
+
+  it("matches world pixels at the default camera", () => {
+    expect(under(T * 4 + 1, T * 7 + 1, { x: 0, y: 0, scale: 1 })).toBe(xyToIdx(4, 7, N));
+  });
+
+  it("follows a pan", () => {
+    const cam = { x: -T * 3, y: 50, scale: 1 };
+    expect(under(0, 50, cam)).toBe(xyToIdx(3, 0, N));
+    expect(under(0, 49, cam)).toBeNull();
+  });
+
+  it("follows a zoom", () => {
+    expect(under(T * 2 - 1, 0, { x: 0, y: 0, scale: 2 })).toBe(0);
+    expect(under(T * 2, 0, { x: 0, y: 0, scale: 2 })).toBe(1);
+    expect(under(T * 5 - 1, 0, { x: 0, y: 0, scale: 0.5 })).toBe(N - 1);
+    expect(under(T * 5, 0, { x: 0, y: 0, scale: 0.5 })).toBeNull();
+  });
+
+  it("follows a pan and zoom together", () => {
+    const cam = { x: 100, y: -40, scale: 1.5 };
+    const sx = 100 + (T * 6 + 3) * 1.5, sy = -40 + (T * 1 + 3) * 1.5;
+    expect(under(sx, sy, cam)).toBe(xyToIdx(6, 1, N));
+    expect(under(99, 0, cam)).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+import type { Tile } from "./types";
+
+/* Grid geometry helpers (square grid, row-major indices) */
+
+export function xyToIdx(x:number,y:number,size:number){ return y*size + x; }
+export function idxToXY(idx:number,size:number){ return { x: idx % size, y: Math.floor(idx/size) }; }
+export function gridSize(grid: Tile[]){ return Math.round(Math.sqrt(grid.length)); }
+
+/* Tile under a world-space pixel (map drawn from 0,0 with square tiles), null off the grid */
+export function tileAt(px:number, py:number, tileSize:number, size:number): number | null {
+  const x = Math.floor(px/tileSize), y = Math.floor(py/tileSize);
+  return x>=0&&y>=0&&x<size&&y<size ? xyToIdx(x,y,size) : null;
+}
+
+/* Screen pixel → world pixel for a map panned to (x, y) and zoomed by `scale` */
+export function screenToWorld(sx:number, sy:number, cam:{ x:number; y:number; scale:number }){
+  return { x:(sx-cam.x)/cam.scale, y:(sy-cam.y)/cam.scale };
+}
+
+export const DIRS4 = [[1,0],[-1,0],[0,1],[0,-1]];
+
+export function neighbours4(i:number, size:number): number[] {
+  const { x, y } = idxToXY(i, size);
+  return DIRS4.map(([dx,dy])=>[x+dx,y+dy]).filter(([xx,yy])=> xx>=0&&yy>=0&&xx<size&&yy<size).map(([xx,yy])=> xyToIdx(xx,yy,size));
+}
+
+/* Tiles covered by a w×h footprint at `origin` (caller checks bounds) */
+export function footprintOf(origin:number, w:number, h:number, size:number): number[] {
+  const { x, y } = idxToXY(origin, size); const out:number[] = [];
+  for (let dx=0; dx<w; dx++) for (let dy=0; dy<h; dy++) out.push(xyToIdx(x+dx, y+dy, size));
+  return out;
+}
+
+/* In-bounds tiles edge-adjacent to a footprint, outside it */
+export function ringOf(origin:number, w:number, h:number, size:number): number[] {
+  const inside = new Set(footprintOf(origin, w, h, size)); const out = new Set<number>();
+  inside.forEach(i => neighbours4(i, size).forEach(n => { if (!inside.has(n)) out.add(n); }));
+  return [...out];
+}
+
+/* In-bounds tiles within a round radius of `center` (radius 0 is just the centre) */
+export function tilesWithin(center:number, r:number, size:number): number[] {
+  const { x, y } = idxToXY(center, size); const out:number[] = [];
+  for (let dy=-r; dy<=r; dy++) for (let dx=-r; dx<=r; dx++) {
+    const xx=x+dx, yy=y+dy;
+    if (xx>=0&&yy>=0&&xx<size&&yy<size && dx*dx+dy*dy <= r*r + r) out.push(xyToIdx(xx,yy,size));
+  }
+  return out;
+}
+
+export const isRoad = (t?: Tile) => !!t && (t.terrain === "road" || t.terrain === "bridge");
@@ -0,0 +1,95 @@
+import type { Tile } from "./types";
+import type { Economy, PlacedBuilding } from "./economy";
+import { placedBuildings } from "./economy";
+import { footprintOf, isRoad, neighbours4, ringOf } from "./grid";
+
+/* ============ Happiness ============ */
+
+export type HappinessFactor = { label: string; value: number };
+export type Happiness = { score: number; factors: HappinessFactor[] };
+
+const BASE = 60;
+const SERVICE_BONUS = 12;      // per service type, scaled by the share of homes it covers
+const ROAD_PENALTY = 10;       // scaled by the share of homes cut off from a road
+const MARSH_PENALTY = 2;       // per building standing on marsh
+const NUISANCE_PENALTY = 3;    // per home near a sawmill/quarry
+
+/* Chebyshev distance from tile (x,y) to a building footprint; 0 when inside it */
+function distToFootprint(x: number, y: number, b: PlacedBuilding, size: number) {
+  const ox = b.origin % size, oy = Math.floor(b.origin / size);
+  const dx = Math.max(ox - x, 0, x - (ox + b.structure.w - 1));
+  const dy = Math.max(oy - y, 0, y - (oy + b.structure.h - 1));
+  return Math.max(dx, dy);
+}
+
+const footprint = (b: PlacedBuilding, size: number) => footprintOf(b.origin, b.structure.w, b.structure.h, size);
+const touchesRoad = (grid: Tile[], b: PlacedBuilding, size: number) => ringOf(b.origin, b.structure.w, b.structure.h, size).some(i => isRoad(grid[i]));
+
+/* `extra` carries factors from outside the city itself, e.g. a festival (game/seasons.ts) */
+export function computeHappiness(grid: Tile[], size: number, econ: Economy, extra: HappinessFactor[] = []): Happiness {
+  const buildings = placedBuildings(grid);
+  const homes = buildings.filter(b => b.def.housing);
+  const factors: HappinessFactor[] = [{ label: "Base", value: BASE }];
+  const add = (label: string, value: number) => { if (value) factors.push({ label, value: Math.round(value) }); };
+
+  add("Homes", Math.min(10, buildings.reduce((n, b) => n + (b.def.happiness || 0), 0)));
+
+  if (econ.jobs > econ.population) add("Housing shortage", -Math.min(20, 2 * (econ.jobs - econ.population)));
+  else if (econ.population > 0) add("Enough housing", 5);
+
+  if (homes.length) {
+    const pos = (b: PlacedBuilding) => ({ x: b.origin % size, y: Math.floor(b.origin / size) });
+    const services = new Map<string, PlacedBuilding[]>();
+    buildings.filter(b => b.def.serves).forEach(b => services.set(b.def.id, [...(services.get(b.def.id) || []), b]));
+    services.forEach(list => {
+      const covered = homes.filter(h => { const { x, y } = pos(h); return list.some(s => distToFootprint(x, y, s, size) <= (s.def.serves || 0)); }).length;
+      add(`${list[0].def.name} coverage`, SERVICE_BONUS * covered / homes.length);
+    });
+
+    const cutOff = homes.filter(h => !touchesRoad(grid, h, size)).length;
+    add("No road access", -ROAD_PENALTY * cutOff / homes.length);
+
+    const noisy = homes.filter(h => { const { x, y } = pos(h); return buildings.some(n => n.def.nuisance && distToFootprint(x, y, n, size) <= n.def.nuisance); }).length;
+    add("Industry noise", -Math.min(15, NUISANCE_PENALTY * noisy));
+  }
+
+  const onMarsh = buildings.filter(b => footprint(b, size).some(i => grid[i]?.biome === "marsh")).length;
+  add("Built on marsh", -Math.min(12, MARSH_PENALTY * onMarsh));
+  extra.forEach(f => add(f.label, f.value));
+
+  const total = factors.reduce((n, f) => n + f.value, 0);
+  return { score: Math.max(0, Math.min(100, Math.round(total))), factors };
+}
+
+/* Word payout multiplier (happy cities earn more) */
+export function happinessMultiplier(score: number) { return score>=80?1.2:score<=20?0.8:1; }
+
+/* Per-tile contribution in [-1, 1] for the map overlay: how a home built here would feel */
+export function happinessMap(grid: Tile[], size: number): number[] {
+  const buildings = placedBuildings(grid);
+  // Distance to the nearest road/bridge (multi-source BFS, 4-neighbour)
+  const roadDist = new Array<number>(grid.length).fill(Infinity);
+  const queue: number[] = [];
+  grid.forEach((t, i) => { if (isRoad(t)) { roadDist[i] = 0; queue.push(i); } });
+  for (let q = 0; q < queue.length; q++) {
+    const i = queue[q];
+    for (const n of neighbours4(i, size)) {
+      if (roadDist[n] !== Infinity) continue;
+      roadDist[n] = roadDist[i] + 1; queue.push(n);
+    }
+  }
+
+  return grid.map((t, i) => {
+    if (t.terrain !== "grass") return 0;
+    const x = i % size, y = Math.floor(i / size);
+    let v = 0;
+    for (const b of buildings) {
+      const d = distToFootprint(x, y, b, size);
+      if (b.def.serves && d <= b.def.serves) v += 0.4;
+      if (b.def.nuisance && d <= b.def.nuisance) v -= 0.6;
+    }
+    if (t.biome === "marsh") v -= 0.3;
+    if (roadDist[i] > 3) v -= 0.3;
+    return Math.max(-1, Math.min(1, v));
+  });
+}
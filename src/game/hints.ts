@@ -0,0 +1,48 @@
+import type { Resources, Tier } from "./types";
+import type { Dictionary } from "./dictionary";
+import { trieWordsFrom } from "./trie";
+import { countChars } from "./rack";
+import { scoreWord } from "./scoring";
+import { RESOURCE_KEYS } from "./resources";
+
+/* ============ Word-finder hints ============ */
+
+export type HintKind = "count" | "first" | "word";
+
+/* Paid in knowledge and magic; the price is multiplied by the tier */
+export const HINTS: { kind: HintKind; name: string; cost: Partial<Resources> }[] = [
+  { kind: "count", name: "Count words", cost: { knowledge: 2 } },
+  { kind: "first", name: "First letter", cost: { knowledge: 3, magic: 1 } },
+  { kind: "word",  name: "Best word",   cost: { knowledge: 5, magic: 2 } },
+];
+
+export function hintCost(kind: HintKind, tier: Tier): Partial<Resources> {
+  const base = HINTS.find(h => h.kind === kind)!.cost;
+  return Object.fromEntries(Object.entries(base).map(([k, v]) => [k, (v || 0) * tier]));
+}
+
+/* Dictionary words the rack can spell (same letter counting as canFormFromRack), at least `minLength` long */
+export function playableWords(dict: Dictionary, rack: string[], minLength: number): string[] {
+  const out: string[] = [];
+  trieWordsFrom(dict.trie, countChars(rack.join("")), w => { if (w.length >= minLength) out.push(w); });
+  return out;
+}
+
+/* Highest total payout; ties go to the longer word, then alphabetical */
+export function bestWord(words: string[], rackSize: number, mood: number): string | null {
+  const total = (w: string) => { const p = scoreWord(w, rackSize, mood).payout; return RESOURCE_KEYS.reduce((n, k) => n + p[k], 0); };
+  let best: string | null = null, bestScore = -1;
+  for (const w of words) {
+    const s = total(w);
+    if (s > bestScore || (s === bestScore && best && (w.length > best.length || (w.length === best.length && w < best)))) { best = w; bestScore = s; }
+  }
+  return best;
+}
+
+/* What the player learns from a hint */
+export function revealHint(kind: HintKind, words: string[], best: string | null): string {
+  if (!words.length) return "No playable words on this rack. Try shuffling or swapping letters.";
+  if (kind === "count") return `${words.length} playable word${words.length === 1 ? "" : "s"} on this rack.`;
+  if (kind === "first") return `The best word starts with ${best![0]} (${best!.length} letters).`;
+  return `Best word: ${best}`;
+}
@@ -0,0 +1,41 @@
+import type { Resources, Tile } from "./types";
+import type { QuestState } from "./quests";
+import { RESOURCE_KEYS } from "./resources";
+
+/* ============ Undo / redo ============ */
+
+/* The slice of game state a player action can change */
+export type Snapshot = { grid: Tile[]; res: Resources; rack: string[]; rackDraws: number; quests: QuestState };
+
+/* One reversible player action: undo restores `before`, redo restores `after` */
+export type Command = { label: string; before: Snapshot; after: Snapshot };
+
+export type History = { past: Command[]; future: Command[] };
+
+const HISTORY_LIMIT = 100;
+
+export const emptyHistory: History = { past: [], future: [] };
+
+/* Recording a new action drops anything that was undone */
+export function pushCommand(h: History, cmd: Command): History {
+  return { past: [...h.past.slice(-(HISTORY_LIMIT - 1)), cmd], future: [] };
+}
+
+export function stepBack(h: History): History {
+  const cmd = h.past[h.past.length - 1];
+  return cmd ? { past: h.past.slice(0, -1), future: [cmd, ...h.future] } : h;
+}
+
+export function stepForward(h: History): History {
+  const cmd = h.future[0];
+  return cmd ? { past: [...h.past, cmd], future: h.future.slice(1) } : h;
+}
+
+/* The simulation tick keeps changing resources between actions, so undo/redo moves the
+   current stock by the command's own delta (from → to) rather than rolling back income.
+   null when the stock can't cover it (what the action earned has been spent since). */
+export function shiftRes(current: Resources, from: Resources, to: Resources): Resources | null {
+  const out = { ...current };
+  RESOURCE_KEYS.forEach(k => out[k] = current[k] + to[k] - from[k]);
+  return RESOURCE_KEYS.every(k => out[k] >= 0) ? out : null;
+}
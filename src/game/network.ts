@@ -0,0 +1,109 @@
+import type { Tile } from "./types";
+import { TOWN_CENTRE } from "./catalog";
+import { footprintOf, isRoad, neighbours4, ringOf, xyToIdx } from "./grid";
+
+/* ============ Road network & town centre ============ */
+
+export function findTownCentre(grid: Tile[]): number | null {
+  const i = grid.findIndex(t => t.structure?.anchor && t.structure.id === TOWN_CENTRE.id);
+  return i >= 0 ? i : null;
+}
+
+/* Put the town centre on open land nearest the middle of the map, with a stub of road below it */
+export function withTownCentre(grid: Tile[], size: number): Tile[] {
+  if (findTownCentre(grid) !== null) return grid;
+  const { w, h } = TOWN_CENTRE;
+  const open = (i: number) => grid[i].terrain === "grass" && grid[i].biome !== "thicket" && !grid[i].structure;
+  const mid = Math.floor(size / 2);
+  for (let r = 0; r < size; r++) {
+    for (let y = mid - r; y <= mid + r; y++) for (let x = mid - r; x <= mid + r; x++) {
+      if (Math.max(Math.abs(x - mid), Math.abs(y - mid)) !== r) continue;   // only the ring at radius r
+      if (x < 0 || y < 0 || x + w > size || y + h + 1 > size) continue;
+      const origin = xyToIdx(x, y, size);
+      const road = [0, 1].map(dx => xyToIdx(x + dx, y + h, size));
+      if (!footprintOf(origin, w, h, size).every(open) || !road.every(open)) continue;
+
+      const next = grid.slice();
+      footprintOf(origin, w, h, size).forEach(i => {
+        next[i] = { ...next[i], structure: { id: TOWN_CENTRE.id, level: 1, icon: TOWN_CENTRE.icon, w, h, anchor: i === origin, origin } };
+      });
+      road.forEach(i => next[i] = { ...next[i], terrain: "road" });
+      return next;
+    }
+  }
+  return grid;
+}
+
+/* Label every land tile with its landmass (bridges count as water), -1 for water */
+function landmasses(grid: Tile[], size: number): number[] {
+  const region = new Array<number>(grid.length).fill(-1);
+  const land = (t: Tile) => t.terrain === "grass" || t.terrain === "road";
+  let next = 0;
+  grid.forEach((t, i) => {
+    if (!land(t) || region[i] >= 0) return;
+    const queue = [i]; region[i] = next;
+    for (let q = 0; q < queue.length; q++) for (const n of neighbours4(queue[q], size)) {
+      if (region[n] < 0 && land(grid[n])) { region[n] = next; queue.push(n); }
+    }
+    next++;
+  });
+  return region;
+}
+
+/* Bridge tiles whose span (a connected run of bridge tiles) joins two separate landmasses */
+export function completeBridges(grid: Tile[], size: number): Set<number> {
+  const region = landmasses(grid, size);
+  const done = new Set<number>(), seen = new Set<number>();
+  grid.forEach((t, i) => {
+    if (t.terrain !== "bridge" || seen.has(i)) return;
+    const span = [i], banks = new Set<number>(); seen.add(i);
+    for (let q = 0; q < span.length; q++) for (const n of neighbours4(span[q], size)) {
+      if (grid[n].terrain === "bridge" && !seen.has(n)) { seen.add(n); span.push(n); }
+      else if (region[n] >= 0) banks.add(region[n]);
+    }
+    if (banks.size >= 2) span.forEach(s => done.add(s));
+  });
+  return done;
+}
+
+/* A new bridge tile has to grow out from a bank or an existing bridge */
+export function bridgeAnchored(grid: Tile[], size: number, i: number) {
+  return neighbours4(i, size).some(n => grid[n].terrain !== "water");
+}
+
+export type Network = {
+  centre: number | null;       // origin of the town centre
+  roads: Set<number>;          // road/bridge tiles reachable from the centre
+  active: Set<number>;         // origins of buildings on that network
+};
+
+export function computeNetwork(grid: Tile[], size: number): Network {
+  const centre = findTownCentre(grid);
+  const roads = new Set<number>(), active = new Set<number>();
+  const bridges = completeBridges(grid, size);
+  const conducts = (i: number) => grid[i].terrain === "road" || bridges.has(i);
+
+  if (centre === null) {
+    // No centre (shouldn't happen after migration): don't punish the player
+    grid.forEach((t, i) => { if (isRoad(t)) roads.add(i); if (t.structure?.anchor) active.add(i); });
+    return { centre, roads, active };
+  }
+
+  const queue = ringOf(centre, TOWN_CENTRE.w, TOWN_CENTRE.h, size).filter(conducts);
+  queue.forEach(i => roads.add(i));
+  for (let q = 0; q < queue.length; q++) for (const n of neighbours4(queue[q], size)) {
+    if (!roads.has(n) && conducts(n)) { roads.add(n); queue.push(n); }
+  }
+
+  active.add(centre);
+  grid.forEach((t, i) => {
+    const s = t.structure;
+    if (s?.anchor && ringOf(i, s.w, s.h, size).some(n => roads.has(n))) active.add(i);
+  });
+  return { centre, roads, active };
+}
+
+/* Would a building at `origin` (w×h) hook into the town's road network? */
+export function joinsNetwork(net: Network, origin: number, w: number, h: number, size: number) {
+  return ringOf(origin, w, h, size).some(n => net.roads.has(n));
+}
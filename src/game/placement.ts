@@ -0,0 +1,77 @@
+import type { Building, Resources, Tile } from "./types";
+import { footprintOf, idxToXY, isRoad, ringOf } from "./grid";
+import { computeNetwork, joinsNetwork } from "./network";
+
+/* ============ Placement rules ============ */
+
+export const MARSH_STONE_PER_TILE = 3;   // soggy ground needs foundations
+
+export type PlacementCheck =
+  | { ok: true; cost: Partial<Resources>; notes: string[] }
+  | { ok: false; reason: string };
+
+const BIOME_NAMES: Record<string, string> = { meadow: "meadow", forest: "forest", hill: "hills", marsh: "marsh", thicket: "thicket" };
+
+/* Validate putting `def` with its top-left at `origin`; on success also returns the real cost (marsh surcharge included) */
+export function checkPlacement(grid: Tile[], size: number, def: Building, origin: number): PlacementCheck {
+  const { x, y } = idxToXY(origin, size);
+  if (x < 0 || y < 0 || x + def.w > size || y + def.h > size) return { ok: false, reason: "Out of bounds." };
+
+  const rules = def.rules || [];
+  const shore = rules.some(r => r.kind === "shore");
+  const tiles = footprintOf(origin, def.w, def.h, size);
+  const ring = ringOf(origin, def.w, def.h, size);
+
+  for (const i of tiles) {
+    const t = grid[i];
+    if (!t) return { ok: false, reason: "Out of bounds." };
+    if (t.structure) return { ok: false, reason: "Space occupied." };
+    if (isRoad(t)) return { ok: false, reason: "Can't build on a road or bridge." };
+    if (t.terrain === "water" && !shore) return { ok: false, reason: `${def.name} must be built on land.` };
+    if (t.terrain === "grass" && t.biome === "thicket") return { ok: false, reason: "Thicket blocks building." };
+  }
+
+  for (const rule of rules) {
+    if (rule.kind === "shore") {
+      const wet = tiles.filter(i => grid[i].terrain === "water").length;
+      if (wet === 0 || wet === tiles.length) return { ok: false, reason: `${def.name} must sit on the shore, partly over water.` };
+    }
+    if (rule.kind === "touches" && ![...tiles, ...ring].some(i => grid[i].terrain === "grass" && grid[i].biome === rule.biome)) {
+      return { ok: false, reason: `${def.name} must touch ${BIOME_NAMES[rule.biome]}.` };
+    }
+  }
+
+  if (!ring.some(i => isRoad(grid[i]))) return { ok: false, reason: "Buildings must touch a road/bridge." };
+
+  const cost = { ...def.cost };
+  const notes: string[] = [];
+  if (!joinsNetwork(computeNetwork(grid, size), origin, def.w, def.h, size)) notes.push("not linked to the town centre, will stay inactive");
+  const marsh = tiles.filter(i => grid[i].terrain === "grass" && grid[i].biome === "marsh").length;
+  if (marsh) {
+    cost.stone = (cost.stone || 0) + marsh * MARSH_STONE_PER_TILE;
+    notes.push(`marsh foundations +${marsh * MARSH_STONE_PER_TILE}s`);
+  }
+  const bonus = adjacencyBonus(grid, size, def, origin);
+  if (bonus) notes.push(`${BIOME_NAMES[def.bonus!.biome]} bonus ${Object.entries(bonus).map(([k, v]) => `+${v} ${k}`).join(" ")}/tick`);
+  return { ok: true, cost, notes };
+}
+
+/* Extra per-tick output from bordering biome tiles (e.g. sawmill next to forest), or null */
+export function adjacencyBonus(grid: Tile[], size: number, def: Building, origin: number): Partial<Resources> | null {
+  const b = def.bonus; if (!b) return null;
+  const count = ringOf(origin, def.w, def.h, size).filter(i => grid[i].terrain === "grass" && grid[i].biome === b.biome).length;
+  const times = Math.floor(count / b.every);
+  if (!times) return null;
+  const out: Partial<Resources> = {};
+  (Object.keys(b.gives) as (keyof Resources)[]).forEach(k => out[k] = (b.gives[k] || 0) * times);
+  return out;
+}
+
+/* Stamp `def` onto the grid with its top-left at `origin` (caller validated it) */
+export function placeBuilding(grid: Tile[], size: number, def: Building, origin: number): Tile[] {
+  const next = grid.slice();
+  footprintOf(origin, def.w, def.h, size).forEach(i => {
+    next[i] = { ...next[i], structure: { id: def.id, level: 1, icon: def.icon, w: def.w, h: def.h, anchor: i === origin, origin } };
+  });
+  return next;
+}
@@ -0,0 +1,86 @@
+import type { Resources, Tier, Tile } from "./types";
+import { gridSize, isRoad } from "./grid";
+import { completeBridges } from "./network";
+
+/* ============ Quests ============ */
+
+/* Things that happen in play; counted toward quests with matching goals */
+export type GameEvent =
+  | { type: "word"; word: string }
+  | { type: "build"; building: string };
+
+/* Event goals count occurrences from the moment the quest opens; the rest read the current city */
+export type QuestGoal =
+  | { kind: "word"; minLength: number; count: number }
+  | { kind: "build"; building: string; count: number }
+  | { kind: "roads"; count: number }
+  | { kind: "resource"; resource: keyof Resources; amount: number }
+  | { kind: "population"; count: number }
+  | { kind: "tier"; tier: Tier }
+  | { kind: "bridge" };
+
+export type QuestReward = { res?: Partial<Resources>; letters?: string[] };
+
+export type Quest = {
+  id: string; name: string;
+  goal: QuestGoal;
+  reward: QuestReward;
+  requires?: string[];       // quests that must be finished before this one opens
+};
+
+/* Add new quests here; the engine only needs a goal kind it understands */
+export const QUESTS: Quest[] = [
+  { id: "first-word",  name: "Spell your first word",                 goal: { kind: "word", minLength: 3, count: 1 },        reward: { res: { coin: 5 } } },
+  { id: "six-letters", name: "Spell a 6-letter word",                 goal: { kind: "word", minLength: 6, count: 1 },        reward: { res: { knowledge: 5 }, letters: ["S"] }, requires: ["first-word"] },
+  { id: "wordsmith",   name: "Spell an 8-letter word",                goal: { kind: "word", minLength: 8, count: 1 },        reward: { res: { magic: 4 }, letters: ["E", "S"] }, requires: ["six-letters"] },
+  { id: "cottages",    name: "Build 3 cottages",                      goal: { kind: "build", building: "cottage", count: 3 }, reward: { res: { lumber: 10 } } },
+  { id: "roads",       name: "Lay 25 tiles of road",                  goal: { kind: "roads", count: 25 },                     reward: { res: { stone: 8 } } },
+  { id: "bridge",      name: "Connect both river banks with a bridge", goal: { kind: "bridge" },                              reward: { res: { coin: 15, stone: 5 } }, requires: ["roads"] },
+  { id: "house-20",    name: "House 20 citizens",                     goal: { kind: "population", count: 20 },               reward: { res: { coin: 20 }, letters: ["A", "E"] }, requires: ["cottages"] },
+  { id: "tier-2",      name: "Reach tier 2",                          goal: { kind: "tier", tier: 2 },                        reward: { res: { magic: 3 } } },
+  { id: "coffers",     name: "Stockpile 100 coin",                    goal: { kind: "resource", resource: "coin", amount: 100 }, reward: { res: { magic: 2 } }, requires: ["tier-2"] },
+];
+export const QUESTS_BY_ID: Record<string, Quest> = Object.fromEntries(QUESTS.map(q => [q.id, q]));
+
+/* Saved with the game: event counts for open quests and the finished ones */
+export type QuestState = { counts: Record<string, number>; done: string[] };
+export const emptyQuestState = (): QuestState => ({ counts: {}, done: [] });
+
+/* What state-based goals look at */
+export type QuestContext = { grid: Tile[]; res: Resources; tier: Tier; population: number };
+
+export const isOpen = (q: Quest, state: QuestState) =>
+  !state.done.includes(q.id) && (q.requires || []).every(r => state.done.includes(r));
+
+function matches(goal: QuestGoal, e: GameEvent) {
+  if (goal.kind === "word") return e.type === "word" && e.word.length >= goal.minLength;
+  if (goal.kind === "build") return e.type === "build" && e.building === goal.building;
+  return false;
+}
+
+/* Count an event toward every open quest it matches */
+export function recordEvent(state: QuestState, e: GameEvent): QuestState {
+  const hits = QUESTS.filter(q => isOpen(q, state) && matches(q.goal, e));
+  if (!hits.length) return state;
+  const counts = { ...state.counts };
+  hits.forEach(q => counts[q.id] = (counts[q.id] || 0) + 1);
+  return { ...state, counts };
+}
+
+/* How far along a quest is, as have/need */
+export function questProgress(q: Quest, state: QuestState, ctx: QuestContext): { have: number; need: number } {
+  const g = q.goal;
+  switch (g.kind) {
+    case "word": case "build": return { have: state.counts[q.id] || 0, need: g.count };
+    case "roads": return { have: ctx.grid.filter(isRoad).length, need: g.count };
+    case "resource": return { have: ctx.res[g.resource], need: g.amount };
+    case "population": return { have: ctx.population, need: g.count };
+    case "tier": return { have: ctx.tier, need: g.tier };
+    case "bridge": return { have: completeBridges(ctx.grid, gridSize(ctx.grid)).size ? 1 : 0, need: 1 };
+  }
+}
+
+/* Open quests whose goal is met right now */
+export function finishedQuests(state: QuestState, ctx: QuestContext): Quest[] {
+  return QUESTS.filter(q => isOpen(q, state) && (({ have, need }) => have >= need)(questProgress(q, state, ctx)));
+}
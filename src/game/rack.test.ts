@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { VOWELS, drawTiles } from "./rack";
+
+const vowels = (letters: string[]) => letters.filter(ch => VOWELS.has(ch)).length;
+
+describe("drawTiles", () => {
+  it("keeps two vowels and two consonants on a full rack", () => {
+    for (let from = 0; from < 50; from++) {
+      const { letters } = drawTiles("seed", from, 8);
+      expect(vowels(letters)).toBeGreaterThanOrEqual(2);
+      expect(8 - vowels(letters)).toBeGreaterThanOrEqual(2);
+    }
+  });
+
+  it("fills racks too small for both minimums", () => {
+    for (let n = 1; n < 4; n++) expect(drawTiles("seed", 0, n).letters).toHaveLength(n);
+    const { letters } = drawTiles("seed", 0, 2, ["A", "E", "I"]);
+    expect(letters.every(ch => !VOWELS.has(ch))).toBe(true);
+  });
+
+  it("moves the bag position past every tile it looked at", () => {
+    const a = drawTiles("seed", 0, 3), b = drawTiles("seed", a.next, 3);
+    expect(b.next).toBeGreaterThanOrEqual(a.next + 3);
+  });
+});
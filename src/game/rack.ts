@@ -0,0 +1,77 @@
+import type { Resources, Tier } from "./types";
+import { seededStream } from "./rng";
+
+/* ============ Letter rack & tile bag ============ */
+
+export const DEFAULT_RACK_SIZE = 8;
+const RACK_SIZE_BY_TIER: Record<Tier, number> = { 1: DEFAULT_RACK_SIZE, 2: DEFAULT_RACK_SIZE + 1, 3: DEFAULT_RACK_SIZE + 2 };
+export function rackSize(tier: Tier, extraSlots = 0) { return RACK_SIZE_BY_TIER[tier] + extraSlots; }   // extra slots come from research
+
+export const VOWELS = new Set(["A", "E", "I", "O", "U"]);
+const MIN_VOWELS = 2, MIN_CONSONANTS = 2;   // every full rack has at least this many of each
+
+export const SWAP_COST: Partial<Resources> = { coin: 2 };   // per letter swapped
+export function swapCost(n: number): Partial<Resources> {
+  return Object.fromEntries(Object.entries(SWAP_COST).map(([k, v]) => [k, (v || 0) * n]));
+}
+
+/* One bag of tiles, word-game distribution (98 tiles) */
+const BAG = Object.entries({
+  A: 9, B: 2, C: 2, D: 4, E: 12, F: 2, G: 3, H: 2, I: 9, J: 1, K: 1, L: 4, M: 2,
+  N: 6, O: 8, P: 2, Q: 1, R: 6, S: 4, T: 6, U: 4, V: 2, W: 2, X: 1, Y: 2, Z: 1,
+}).flatMap(([ch, n]) => Array<string>(n).fill(ch));
+
+/* The seed's bags, shuffled one at a time; bag k is refilled only once bag k-1 is empty */
+const shuffled = new Map<string, string[]>();
+function bag(seed: string, k: number): string[] {
+  const key = `${seed}:${k}`;
+  let b = shuffled.get(key);
+  if (!b) {
+    const rnd = seededStream(seed, `bag:${k}`);
+    b = BAG.slice();
+    for (let i = b.length - 1; i > 0; i--) { const j = Math.floor(rnd() * (i + 1)); [b[i], b[j]] = [b[j], b[i]]; }
+    shuffled.set(key, b);
+  }
+  return b;
+}
+export const tilesLeftInBag = (pos: number) => BAG.length - pos % BAG.length;
+const tileAt = (seed: string, pos: number) => bag(seed, Math.floor(pos / BAG.length))[pos % BAG.length];
+
+/* Draw `n` tiles from bag position `from` to join `keep`. Tiles that would leave the rack short of
+   vowels or consonants are set aside, so `next` (the new bag position) can run ahead of `from + n`.
+   A rack too small for both minimums takes whichever tile it still lacks. */
+export function drawTiles(seed: string, from: number, n: number, keep: string[] = []): { letters: string[]; next: number } {
+  const letters: string[] = [];
+  let vowels = keep.filter(ch => VOWELS.has(ch)).length, consonants = keep.length - vowels;
+  let pos = from;
+  while (letters.length < n) {
+    const ch = tileAt(seed, pos++), vowel = VOWELS.has(ch);
+    const left = n - letters.length;
+    const needV = Math.max(0, MIN_VOWELS - vowels), needC = Math.max(0, MIN_CONSONANTS - consonants);
+    const skip = needV + needC > left ? (vowel ? !needV : !needC) : (vowel ? left <= needC : left <= needV);
+    if (skip) continue;
+    letters.push(ch);
+    if (vowel) vowels++; else consonants++;
+  }
+  return { letters, next: pos };
+}
+
+export function countChars(str:string){ const m:Record<string,number>={}; for(const c of str) m[c]=(m[c]||0)+1; return m; }
+export function canFormFromRack(word:string, rack:string[]){ const need=countChars(word), have=countChars(rack.join("")); return Object.keys(need).every(k=>(have[k]||0)>=need[k]); }
+
+/* Rack indices each letter of `word` uses (first free matching tile), or null past the first letter the rack lacks */
+export function tilesForWord(word: string, rack: string[]): (number | null)[] {
+  const used = new Set<number>();
+  return [...word].map(ch => {
+    const i = rack.findIndex((c, k) => c === ch && !used.has(k));
+    if (i < 0) return null;
+    used.add(i); return i;
+  });
+}
+
+/* Cosmetic reorder; doesn't touch the bag */
+export function shuffleRack(rack: string[]): string[] {
+  const out = rack.slice();
+  for (let i = out.length - 1; i > 0; i--) { const j = Math.floor(Math.random() * (i + 1)); [out[i], out[j]] = [out[j], out[i]]; }
+  return out;
+}
@@ -0,0 +1,65 @@
+import type { Building, Resources, Tier } from "./types";
+
+/* ============ Research tree ============ */
+
+export type ResearchId = "surveying" | "engineering" | "literacy" | "rhetoric" | "tools" | "guilds" | "horticulture" | "astronomy";
+
+/* What finished research adds up to; threaded into the catalog, road, economy and rack rules */
+export type Perks = {
+  buildings: string[];       // catalog ids unlocked by research
+  bridgeDiscount: number;    // share taken off bridge costs
+  rackSlots: number;         // extra tiles on the rack
+  extraOutput: number;       // added to each resource a (non-converter) workplace makes per tick
+  thicketRoads: boolean;     // roads can be cut through thicket
+};
+
+export type ResearchNode = {
+  id: ResearchId; name: string; desc: string;
+  cost: Partial<Resources>;
+  requires: ResearchId[];
+  tier: Tier;                // town tier needed before it can be started
+  perk: Partial<Perks>;
+};
+
+export const RESEARCH: ResearchNode[] = [
+  { id: "surveying",    name: "Surveying",    desc: "Cut roads through thicket.",              cost: { knowledge: 8 },  requires: [],                tier: 1, perk: { thicketRoads: true } },
+  { id: "engineering",  name: "Engineering",  desc: "Bridges cost half as much.",              cost: { knowledge: 15 }, requires: ["surveying"],     tier: 1, perk: { bridgeDiscount: 0.5 } },
+  { id: "literacy",     name: "Literacy",     desc: "One more tile on the rack.",              cost: { knowledge: 10 }, requires: [],                tier: 1, perk: { rackSlots: 1 } },
+  { id: "rhetoric",     name: "Rhetoric",     desc: "Another tile on the rack.",               cost: { knowledge: 30 }, requires: ["literacy"],      tier: 2, perk: { rackSlots: 1 } },
+  { id: "tools",        name: "Better Tools", desc: "Workplaces make +1 of each output.",      cost: { knowledge: 15 }, requires: [],                tier: 1, perk: { extraOutput: 1 } },
+  { id: "guilds",       name: "Guilds",       desc: "Workplaces make a further +1.",           cost: { knowledge: 40 }, requires: ["tools"],         tier: 2, perk: { extraOutput: 1 } },
+  { id: "horticulture", name: "Horticulture", desc: "Unlocks the Orchard.",                    cost: { knowledge: 12 }, requires: ["tools"],         tier: 1, perk: { buildings: ["orchard"] } },
+  { id: "astronomy",    name: "Astronomy",    desc: "Unlocks the Observatory.",                cost: { knowledge: 35 }, requires: ["literacy"],      tier: 2, perk: { buildings: ["observatory"] } },
+];
+export const RESEARCH_BY_ID = Object.fromEntries(RESEARCH.map(r => [r.id, r])) as Record<ResearchId, ResearchNode>;
+export const isResearchId = (v: unknown): v is ResearchId => typeof v === "string" && v in RESEARCH_BY_ID;
+
+export const NO_PERKS: Perks = { buildings: [], bridgeDiscount: 0, rackSlots: 0, extraOutput: 0, thicketRoads: false };
+
+export function perksOf(done: ResearchId[]): Perks {
+  return done.reduce<Perks>((p, id) => {
+    const k = RESEARCH_BY_ID[id].perk;
+    return {
+      buildings: [...p.buildings, ...(k.buildings || [])],
+      bridgeDiscount: Math.max(p.bridgeDiscount, k.bridgeDiscount || 0),
+      rackSlots: p.rackSlots + (k.rackSlots || 0),
+      extraOutput: p.extraOutput + (k.extraOutput || 0),
+      thicketRoads: p.thicketRoads || !!k.thicketRoads,
+    };
+  }, NO_PERKS);
+}
+
+/* Why a node can't be started yet, or null when it can (ignoring cost) */
+export function researchBlocker(id: ResearchId, done: ResearchId[], tier: Tier): string | null {
+  const node = RESEARCH_BY_ID[id];
+  if (done.includes(id)) return "Done.";
+  const missing = node.requires.filter(r => !done.includes(r));
+  if (missing.length) return `Needs ${missing.map(r => RESEARCH_BY_ID[r].name).join(", ")}.`;
+  if (tier < node.tier) return `Needs tier ${node.tier}.`;
+  return null;
+}
+
+/* Can this catalog entry be built at `tier` with these perks? */
+export function isAvailable(def: Building, tier: Tier, perks: Perks) {
+  return def.tier <= tier && (!def.research || perks.buildings.includes(def.id));
+}
@@ -0,0 +1,26 @@
+import type { Resources } from "./types";
+
+/* Resources helpers */
+
+export const RESOURCE_KEYS: (keyof Resources)[] = ["coin", "lumber", "stone", "knowledge", "magic"];
+
+export function emptyResources(): Resources { return { coin:0, lumber:0, stone:0, knowledge:0, magic:0 }; }
+
+export function canAfford(res:Resources, cost:Partial<Resources>){ for (const k of Object.keys(cost) as (keyof Resources)[]) if ((res[k]||0) < (cost[k]||0)) return false; return true; }
+export function pay(res:Resources, cost:Partial<Resources>):Resources {
+  const out = { ...res };
+  (Object.keys(cost) as (keyof Resources)[]).forEach(k=> out[k] = Math.max(0, out[k] - (cost[k]||0)));
+  return out;
+}
+export function gain(res:Resources, amount:Partial<Resources>):Resources {
+  const out = { ...res };
+  (Object.keys(amount) as (keyof Resources)[]).forEach(k=> out[k] = Math.max(0, out[k] + (amount[k]||0)));
+  return out;
+}
+
+/* Player-facing resource change, e.g. "+3c -2l" (gained minus spent, zero entries left out) */
+const SHORT: Record<keyof Resources, string> = { coin:"c", lumber:"l", stone:"s", knowledge:"k", magic:"m" };
+export function formatChange(gained:Partial<Resources>, spent:Partial<Resources> = {}){
+  const parts = RESOURCE_KEYS.map(k=> [k, (gained[k]||0) - (spent[k]||0)] as const).filter(([,v])=> v).map(([k,v])=> `${v>0?"+":""}${v}${SHORT[k]}`);
+  return parts.join(" ") || "+0c";
+}
@@ -0,0 +1,23 @@
+/* Seeded randomness. Everything random in a world flows from its seed string. */
+
+export type RNG = () => number;
+
+export function makeRNG(seedNum: number): RNG { let s = seedNum >>> 0; return () => ((s = (s * 1664525 + 1013904223) >>> 0), s / 4294967296); }
+export function hashSeed(seed: string){ let h = 2166136261 >>> 0; for (let i=0;i<seed.length;i++){ h^=seed.charCodeAt(i); h=Math.imul(h,16777619);} return h>>>0; }
+
+/* Independent named stream of a world seed (e.g. "rack", "tex:forest"), so one consumer never shifts another's draws */
+export function seededStream(seed: string, name: string): RNG { return makeRNG(hashSeed(`${seed}:${name}`)); }
+
+/* Fresh human-friendly seed for a brand new world */
+export function randomSeed(){ return Math.random().toString(36).slice(2, 8); }
+
+/* Read/write the ?seed= query param so a world can be shared as a link */
+export function seedFromURL(): string | null {
+  const s = new URLSearchParams(window.location.search).get("seed");
+  return s && s.trim() ? s.trim() : null;
+}
+export function seedToURL(seed: string){
+  const url = new URL(window.location.href);
+  url.searchParams.set("seed", seed);
+  window.history.replaceState(null, "", url);
+}
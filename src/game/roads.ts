@@ -0,0 +1,171 @@
+import type { Biome, Resources, Tile } from "./types";
+import { CATALOG_BY_ID, TOWN_CENTRE } from "./catalog";
+import { bridgeAnchored } from "./network";
+import { footprintOf, idxToXY, isRoad, neighbours4, xyToIdx } from "./grid";
+import type { Perks } from "./research";
+
+/* ============ Road tool ============ */
+
+export type RoadOptions = { bridgeMode: boolean; removeMode: boolean; perks?: Perks };
+type LineOptions = Omit<RoadOptions, "removeMode">;
+
+/* Paving cost by the ground under the road; soft marsh and rocky hill take stone */
+export const ROAD_COST: Record<Biome, Partial<Resources>> = {
+  meadow: { coin: 1 },
+  forest: { coin: 1, lumber: 1 },
+  hill: { coin: 2, stone: 1 },
+  marsh: { coin: 2, stone: 2 },
+  thicket: { coin: 3, lumber: 2 },   // needs the Surveying research
+};
+export const BRIDGE_COST: Partial<Resources> = { coin: 2, lumber: 3, stone: 1 };
+export const REFUND_SHARE = 0.5;     // of the build cost, returned on demolition
+
+export function refundOf(cost: Partial<Resources>): Partial<Resources> {
+  const out: Partial<Resources> = {};
+  (Object.keys(cost) as (keyof Resources)[]).forEach(k => { const v = Math.floor((cost[k] || 0) * REFUND_SHARE); if (v) out[k] = v; });
+  return out;
+}
+
+export function bridgeCost(perks?: Perks): Partial<Resources> {
+  const keep = 1 - (perks?.bridgeDiscount || 0);
+  return Object.fromEntries(Object.entries(BRIDGE_COST).map(([k, v]) => [k, Math.ceil((v || 0) * keep)]));
+}
+
+/* What the road or bridge on `t` cost to build, before research discounts: a bridge may predate
+   Engineering, and half the full price never tops what a discounted one cost */
+export const pavingCost = (t: Tile) => t.terrain === "bridge" ? BRIDGE_COST : ROAD_COST[t.biome];
+
+/* What one road-tool click on tile `i` would do. `tiles` are the tiles it touches (for previews);
+   an empty `reason` means a harmless no-op (painting over road, erasing bare land). */
+export type RoadEdit =
+  | { ok: true; grid: Tile[]; label: string; tiles: number[]; cost: Partial<Resources>; refund: Partial<Resources> }
+  | { ok: false; reason: string; tiles: number[] };
+
+export function editRoad(grid: Tile[], size: number, i: number, { bridgeMode, removeMode, perks }: RoadOptions): RoadEdit {
+  const t = grid[i];
+  if (!t) return { ok: false, reason: "Out of bounds.", tiles: [] };
+  const next = grid.slice();
+
+  if (removeMode){
+    if (t.terrain==="road"||t.terrain==="bridge"){
+      next[i] = { ...t, terrain:"grass" };
+      return { ok: true, grid: next, label: `${t.terrain} removal`, tiles: [i], cost: {}, refund: refundOf(pavingCost(t)) };
+    }
+    if (t.structure?.id===TOWN_CENTRE.id) return { ok: false, reason: "The town centre can't be demolished.", tiles: [i] };
+    if (t.structure){
+      // remove whole building by origin
+      const { origin, w, h } = t.structure;
+      const tiles = footprintOf(origin, w, h, size).filter(ii => next[ii]?.structure?.origin === origin);
+      tiles.forEach(ii => next[ii] = { ...next[ii], structure: undefined });
+      const def = CATALOG_BY_ID[t.structure.id];
+      return { ok: true, grid: next, label: `${def?.name ?? t.structure.id} removal`, tiles, cost: {}, refund: def ? refundOf(def.cost) : {} };
+    }
+    return { ok: false, reason: "", tiles: [i] };
+  }
+
+  if (t.structure) return { ok: false, reason: "Space occupied.", tiles: [i] };
+  if (t.terrain==="water"){
+    if (!bridgeMode) return { ok: false, reason: "Toggle Bridge to span water.", tiles: [i] };
+    if (!bridgeAnchored(grid, size, i)) return { ok: false, reason: "Bridges must grow out from a bank.", tiles: [i] };
+    next[i] = { ...t, terrain:"bridge" };
+    return { ok: true, grid: next, label: "bridge", tiles: [i], cost: bridgeCost(perks), refund: {} };
+  }
+  if (t.terrain==="grass"){
+    if (t.biome==="thicket" && !perks?.thicketRoads) return { ok: false, reason: "Thicket is impassable (research Surveying).", tiles: [i] };
+    next[i] = { ...t, terrain:"road" };
+    return { ok: true, grid: next, label: "road", tiles: [i], cost: ROAD_COST[t.biome], refund: {} };
+  }
+  return { ok: false, reason: "", tiles: [i] };
+}
+
+/* ============ Area tools ============ */
+
+/* A multi-tile road/bulldoze job, applied in one go; `summary` describes it for the confirm preview */
+export type AreaPlan =
+  | { ok: true; grid: Tile[]; label: string; tiles: number[]; summary: string; cost: Partial<Resources>; refund: Partial<Resources> }
+  | { ok: false; reason: string; tiles: number[] };
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? "" : "s"}`;
+const addRes = (a: Partial<Resources>, b: Partial<Resources>) => {
+  const out = { ...a };
+  (Object.keys(b) as (keyof Resources)[]).forEach(k => out[k] = (out[k] || 0) + (b[k] || 0));
+  return out;
+};
+
+/* Can the line tool route a road over this tile? Existing roads are reused */
+function passable(t: Tile, { bridgeMode, perks }: LineOptions) {
+  if (isRoad(t)) return true;
+  if (t.structure) return false;
+  return t.terrain === "water" ? bridgeMode : t.terrain === "grass" && (t.biome !== "thicket" || !!perks?.thicketRoads);
+}
+
+/* Straight run from a to b along one axis, excluding a */
+function run(size: number, ax: number, ay: number, bx: number, by: number): number[] {
+  const out: number[] = [];
+  const dx = Math.sign(bx - ax), dy = Math.sign(by - ay);
+  for (let x = ax, y = ay; x !== bx || y !== by;) { x += dx; y += dy; out.push(xyToIdx(x, y, size)); }
+  return out;
+}
+
+/* Route from `from` to `to`: an L (either elbow) when one is clear, else the shortest walkable path (BFS) */
+export function roadRoute(grid: Tile[], size: number, from: number, to: number, opts: LineOptions): number[] | null {
+  const ok = (i: number) => passable(grid[i], opts);
+  if (!ok(from) || !ok(to)) return null;
+  const a = idxToXY(from, size), b = idxToXY(to, size);
+  const elbows = [
+    [from, ...run(size, a.x, a.y, b.x, a.y), ...run(size, b.x, a.y, b.x, b.y)],
+    [from, ...run(size, a.x, a.y, a.x, b.y), ...run(size, a.x, b.y, b.x, b.y)],
+  ];
+  const l = elbows.find(path => path.every(ok));
+  if (l) return l;
+
+  const prev = new Map<number, number>([[from, -1]]);
+  const queue = [from];
+  for (let q = 0; q < queue.length && !prev.has(to); q++) for (const n of neighbours4(queue[q], size)) {
+    if (!prev.has(n) && ok(n)) { prev.set(n, queue[q]); queue.push(n); }
+  }
+  if (!prev.has(to)) return null;
+  const path: number[] = [];
+  for (let i = to; i !== -1; i = prev.get(i)!) path.push(i);
+  return path.reverse();
+}
+
+/* Line tool: lay road (and bridges, in bridge mode) along the route between two clicked tiles */
+export function planRoadLine(grid: Tile[], size: number, from: number, to: number, opts: LineOptions): AreaPlan {
+  const route = roadRoute(grid, size, from, to, opts);
+  if (!route) {
+    const end = [from, to].find(i => !passable(grid[i], opts));
+    const e = end !== undefined ? editRoad(grid, size, end, { ...opts, removeMode: false }) : null;
+    const why = e && !e.ok ? e.reason : "";
+    return { ok: false, reason: why || "No walkable route between those tiles.", tiles: [from, to] };
+  }
+
+  let next = grid, cost: Partial<Resources> = {}, roads = 0, bridges = 0;
+  for (const i of route) {
+    const e = editRoad(next, size, i, { ...opts, removeMode: false });
+    if (!e.ok) { if (e.reason) return { ok: false, reason: e.reason, tiles: route }; continue; }
+    next = e.grid; cost = addRes(cost, e.cost);
+    if (e.label === "bridge") bridges++; else roads++;
+  }
+  if (!roads && !bridges) return { ok: false, reason: "Already connected by road.", tiles: route };
+  const parts = [roads ? plural(roads, "road tile") : "", bridges ? plural(bridges, "bridge tile") : ""].filter(Boolean);
+  return { ok: true, grid: next, label: "road line", tiles: route, summary: parts.join(", "), cost, refund: {} };
+}
+
+/* Area bulldoze: clear every road, bridge and building touching the rectangle between two corners */
+export function planClearArea(grid: Tile[], size: number, a: number, b: number, perks?: Perks): AreaPlan {
+  const p = idxToXY(a, size), q = idxToXY(b, size);
+  const tiles: number[] = [];
+  for (let y = Math.min(p.y, q.y); y <= Math.max(p.y, q.y); y++) for (let x = Math.min(p.x, q.x); x <= Math.max(p.x, q.x); x++) tiles.push(xyToIdx(x, y, size));
+
+  let next = grid, refund: Partial<Resources> = {}, roads = 0, buildings = 0;
+  for (const i of tiles) {
+    const e = editRoad(next, size, i, { bridgeMode: false, removeMode: true, perks });
+    if (!e.ok) continue;   // bare land, or the town centre
+    next = e.grid; refund = addRes(refund, e.refund);
+    if (e.label === "road removal" || e.label === "bridge removal") roads++; else buildings++;
+  }
+  if (!roads && !buildings) return { ok: false, reason: "Nothing to clear here.", tiles };
+  const parts = [roads ? plural(roads, "road tile") : "", buildings ? plural(buildings, "building") : ""].filter(Boolean);
+  return { ok: true, grid: next, label: "area clearing", tiles, summary: `Clear ${parts.join(", ")}`, cost: {}, refund };
+}
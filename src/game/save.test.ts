@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { parseSave } from "./save";
+
+const v2 = (grid: unknown) => ({ version: 2, seed: "x", size: 1, grid, rack: [], rackDraws: 0 });
+
+describe("parseSave migrations", () => {
+  it("rejects a malformed v2 grid as an invalid save", () => {
+    expect(() => parseSave(v2([null]))).toThrow("Invalid save: tile 0 is not an object");
+    expect(() => parseSave(v2(null))).toThrow("Invalid save: grid must have 1 tiles");
+    expect(() => parseSave({ ...v2([]), size: "big" })).toThrow("Invalid save: bad grid size");
+  });
+});
+
+describe("parseSave racks", () => {
+  const save = (rack: string[]) => ({ ...v2([{ terrain: "grass", biome: "meadow" }]), version: 6, rack,
+    res: { coin: 0, lumber: 0, stone: 0, knowledge: 0, magic: 0 }, tier: 1, research: [], quests: { counts: {}, done: [] }, calendar: { clock: 0, events: [], log: [] } });
+
+  it("accepts a full rack", () => {
+    expect(parseSave(save([..."STONEAGE"])).rack).toHaveLength(8);
+  });
+
+  it("rejects racks shorter than the starting rack or past the tier's size plus bonus tiles", () => {
+    expect(() => parseSave(save(["A", "B"]))).toThrow(/rack must hold/);
+    expect(() => parseSave(save(Array(30).fill("A")))).toThrow(/rack must hold/);
+  });
+});
@@ -0,0 +1,248 @@
+import type { Biome, Resources, Terrain, Tier, Tile } from "./types";
+import { withTownCentre } from "./network";
+import { ResearchId, isResearchId, perksOf } from "./research";
+import { QUESTS, QuestState, QUESTS_BY_ID } from "./quests";
+import { DEFAULT_RACK_SIZE, rackSize } from "./rack";
+import type { Calendar, WorldEvent } from "./seasons";
+
+/* ============ Save format ============ */
+
+export const SAVE_VERSION = 6;
+
+export type SaveGame = {
+  version: typeof SAVE_VERSION;
+  savedAt: string;       // ISO timestamp
+  seed: string;          // world seed (terrain can be regenerated from it)
+  size: number;          // grid dimension
+  grid: Tile[];
+  rack: string[];
+  rackDraws: number;     // position in the seed's tile bag (tiles drawn or set aside so far)
+  res: Resources;
+  tier: Tier;
+  research: ResearchId[];  // finished research nodes
+  quests: QuestState;
+  calendar: Calendar;    // season clock, events in progress and the event log
+};
+
+export type SlotInfo = { name: string; savedAt: string };
+
+const AUTOSAVE_KEY = "wordcity:autosave";
+const AUTOSAVE_BACKUP_KEY = "wordcity:autosave:unreadable";   // last autosave that failed to load
+const SLOTS_KEY = "wordcity:slots";
+const slotKey = (name: string) => `wordcity:slot:${name}`;
+
+/* Older save versions are upgraded one step at a time: MIGRATIONS[n] turns a vN save into vN+1 */
+type Raw = Record<string, unknown>;
+const MIGRATIONS: Record<number, (raw: Raw) => Raw> = {
+  // v1 racks came from Math.random; keep the letters and start the seeded stream fresh
+  1: raw => ({ ...raw, version: 2, rackDraws: 0 }),
+  // v3 buildings only work when connected to a town centre; older cities get one (on a grid checked first)
+  2: raw => {
+    if (!isInt(raw.size) || raw.size < 1) fail("bad grid size");
+    return { ...raw, version: 3, grid: withTownCentre(validateTiles(raw.grid, raw.size), raw.size) };
+  },
+  // v4 added the research tree; nothing researched yet
+  3: raw => ({ ...raw, version: 4, research: [] }),
+  // v5 added quests; start the log fresh
+  4: raw => ({ ...raw, version: 5, quests: { counts: {}, done: [] } }),
+  // v6 added seasons; older worlds start in their first spring
+  5: raw => ({ ...raw, version: 6, calendar: { clock: 0, events: [], log: [] } }),
+};
+
+/* ============ Validation ============ */
+
+const TERRAINS: Terrain[] = ["grass", "water", "road", "bridge"];
+const BIOMES: Biome[] = ["meadow", "forest", "hill", "marsh", "thicket"];
+const RESOURCE_KEYS: (keyof Resources)[] = ["coin", "lumber", "stone", "knowledge", "magic"];
+const isTerrain = (v: unknown): v is Terrain => TERRAINS.includes(v as Terrain);
+const isBiome = (v: unknown): v is Biome => BIOMES.includes(v as Biome);
+const isTier = (v: unknown): v is Tier => v === 1 || v === 2 || v === 3;
+
+const isInt = (v: unknown): v is number => typeof v === "number" && Number.isInteger(v);
+const isObj = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+function fail(msg: string): never { throw new Error(`Invalid save: ${msg}`); }
+
+function validateCalendar(raw: unknown, cells: number): Calendar {
+  if (!isObj(raw) || !isInt(raw.clock) || raw.clock < 0) fail("bad season clock");
+  if (!Array.isArray(raw.events) || !Array.isArray(raw.log)) fail("bad event list");
+  const events: WorldEvent[] = raw.events.map((e: unknown, k: number) => {
+    if (!isObj(e) || !isInt(e.until)) fail(`event ${k} is malformed`);
+    if (e.kind === "festival") return { kind: "festival", until: e.until, funded: !!e.funded };
+    if (e.kind === "flood" && isInt(e.at) && Array.isArray(e.tiles) && e.tiles.every((i: unknown) => isInt(i) && i >= 0 && i < cells)) {
+      return { kind: "flood", tiles: e.tiles.slice(), at: e.at, until: e.until, levees: !!e.levees, hit: !!e.hit };
+    }
+    fail(`event ${k} has unknown kind "${e.kind}"`);
+  });
+  const log = raw.log.filter((l: unknown) => isObj(l) && isInt(l.clock) && typeof l.text === "string").map((l: Raw) => ({ clock: l.clock as number, text: l.text as string }));
+  return { clock: raw.clock, events, log };
+}
+
+function validateTiles(raw: unknown, size: number): Tile[] {
+  if (!Array.isArray(raw) || raw.length !== size * size) fail(`grid must have ${size * size} tiles`);
+  const tiles: Tile[] = raw.map((t, i) => {
+    if (!isObj(t)) fail(`tile ${i} is not an object`);
+    if (!isTerrain(t.terrain)) fail(`tile ${i} has unknown terrain "${t.terrain}"`);
+    if (!isBiome(t.biome)) fail(`tile ${i} has unknown biome "${t.biome}"`);
+    const tile: Tile = { terrain: t.terrain, biome: t.biome };
+    if (t.structure !== undefined && t.structure !== null) {
+      const s = t.structure;
+      if (!isObj(s)) fail(`tile ${i} structure is not an object`);
+      if (typeof s.id !== "string" || typeof s.icon !== "string") fail(`tile ${i} structure needs id and icon`);
+      if (!isInt(s.level) || s.level < 1) fail(`tile ${i} structure level must be a positive integer`);
+      if (!isInt(s.w) || !isInt(s.h) || s.w < 1 || s.h < 1) fail(`tile ${i} structure has a bad footprint`);
+      if (typeof s.anchor !== "boolean") fail(`tile ${i} structure anchor must be boolean`);
+      if (!isInt(s.origin) || s.origin < 0 || s.origin >= size * size) fail(`tile ${i} structure origin out of range`);
+      tile.structure = { id: s.id, level: s.level, icon: s.icon, w: s.w, h: s.h, anchor: s.anchor, origin: s.origin };
+    }
+    return tile;
+  });
+
+  // Footprints: every tile of a building must point at the same origin, and only the origin is the anchor
+  tiles.forEach((t, i) => {
+    const s = t.structure; if (!s) return;
+    if (s.anchor !== (s.origin === i)) fail(`tile ${i} anchor disagrees with its origin`);
+    const ox = s.origin % size, oy = Math.floor(s.origin / size);
+    const x = i % size, y = Math.floor(i / size);
+    if (x < ox || y < oy || x >= ox + s.w || y >= oy + s.h) fail(`tile ${i} lies outside the footprint of origin ${s.origin}`);
+    if (!s.anchor) return;
+    if (ox + s.w > size || oy + s.h > size) fail(`building at ${i} runs off the map`);
+    for (let dx = 0; dx < s.w; dx++) for (let dy = 0; dy < s.h; dy++) {
+      const o = tiles[(oy + dy) * size + (ox + dx)].structure;
+      if (!o || o.origin !== i || o.id !== s.id || o.level !== s.level || o.w !== s.w || o.h !== s.h) {
+        fail(`building at ${i} has a broken footprint`);
+      }
+    }
+  });
+  return tiles;
+}
+
+export function parseSave(raw: unknown): SaveGame {
+  if (!isObj(raw)) fail("not an object");
+  let data: Raw = raw;
+  for (;;) {
+    const v = data.version;
+    if (!isInt(v)) fail("missing version");
+    if (v > SAVE_VERSION) fail(`version ${v} is newer than this game (v${SAVE_VERSION})`);
+    if (v === SAVE_VERSION) break;
+    const migrate = MIGRATIONS[v];
+    if (!migrate) fail(`version ${v} is no longer supported`);
+    data = migrate(data);
+  }
+
+  if (typeof data.seed !== "string") fail("missing seed");
+  if (!isInt(data.size) || data.size < 1) fail("bad grid size");
+  if (!Array.isArray(data.rack) || !data.rack.every((c: unknown) => typeof c === "string" && /^[A-Z]$/.test(c))) fail("bad rack");
+  if (!isInt(data.rackDraws) || data.rackDraws < 0) fail("bad rack draw count");
+  const stock = data.res;
+  if (!isObj(stock) || !RESOURCE_KEYS.every(k => isInt(stock[k]) && stock[k] >= 0)) fail("bad resources");
+  if (!isTier(data.tier)) fail("bad tier");
+  if (!Array.isArray(data.research) || !data.research.every(isResearchId)) fail("bad research list");
+  // a rack is never below the starting size, and only quest bonus tiles take it past the tier's size
+  const maxRack = rackSize(data.tier, perksOf([...new Set(data.research)]).rackSlots) + QUESTS.reduce((n, q) => n + (q.reward.letters?.length || 0), 0);
+  if (data.rack.length < DEFAULT_RACK_SIZE || data.rack.length > maxRack) fail(`rack must hold ${DEFAULT_RACK_SIZE}–${maxRack} tiles`);
+  const q = data.quests;
+  if (!isObj(q) || !isObj(q.counts) || !Object.values(q.counts).every(n => isInt(n) && n >= 0)) fail("bad quest counts");
+  if (!Array.isArray(q.done) || !q.done.every((id: unknown) => typeof id === "string")) fail("bad quest list");
+
+  const res = {} as Resources;
+  RESOURCE_KEYS.forEach(k => res[k] = stock[k] as number);
+  return {
+    version: SAVE_VERSION,
+    savedAt: typeof data.savedAt === "string" ? data.savedAt : new Date().toISOString(),
+    seed: data.seed,
+    size: data.size,
+    grid: validateTiles(data.grid, data.size),
+    rack: data.rack.slice(),
+    rackDraws: data.rackDraws,
+    res,
+    tier: data.tier,
+    research: [...new Set<ResearchId>(data.research)],
+    // quests removed from the game since the save are dropped
+    quests: {
+      counts: Object.fromEntries(Object.entries(q.counts as Record<string, number>).filter(([id]) => id in QUESTS_BY_ID)),
+      done: [...new Set<string>(q.done)].filter(id => id in QUESTS_BY_ID),
+    },
+    calendar: validateCalendar(data.calendar, data.size * data.size),
+  };
+}
+
+/* ============ JSON export / import ============ */
+
+export function serializeSave(save: Omit<SaveGame, "version" | "savedAt">): SaveGame {
+  return { version: SAVE_VERSION, savedAt: new Date().toISOString(), ...save };
+}
+
+/* Offer `data` as a JSON file download */
+export function downloadJSON(data: unknown, filename: string) {
+  const blob = new Blob([JSON.stringify(data)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url; a.download = filename; a.click();
+  URL.revokeObjectURL(url);
+}
+
+export function exportSave(save: SaveGame, filename = "wordcity-save.json") { downloadJSON(save, filename); }
+
+export async function importSave(file: File): Promise<SaveGame> {
+  let raw: unknown;
+  try { raw = JSON.parse(await file.text()); }
+  catch { fail("file is not JSON"); }
+  return parseSave(raw);
+}
+
+/* ============ localStorage (autosave + named slots) ============ */
+
+function readJSON(key: string): unknown {
+  try { const s = localStorage.getItem(key); return s ? JSON.parse(s) : null; }
+  catch { return null; }
+}
+
+/* Set when an unreadable autosave couldn't be copied aside; writing over it would destroy it */
+let autosavePaused = false;
+
+/* null when there's no autosave; throws (like loadSlot) when there is one but it can't be read.
+   The unreadable text is copied to a backup key first, since the next autosave replaces it. */
+export function loadAutosave(): SaveGame | null {
+  let text: string | null;
+  try { text = localStorage.getItem(AUTOSAVE_KEY); } catch { return null; }
+  if (!text) return null;
+  try {
+    let raw: unknown;
+    try { raw = JSON.parse(text); }
+    catch { fail("autosave is not JSON"); }
+    return parseSave(raw);
+  } catch (e) {
+    try { localStorage.setItem(AUTOSAVE_BACKUP_KEY, text); }
+    catch { autosavePaused = true; throw new Error(`${(e as Error).message}; it couldn't be backed up, so autosave is off to protect it`); }
+    throw new Error(`${(e as Error).message}; a copy was kept under "${AUTOSAVE_BACKUP_KEY}"`);
+  }
+}
+
+export function writeAutosave(save: SaveGame) {
+  if (autosavePaused) return;
+  try { localStorage.setItem(AUTOSAVE_KEY, JSON.stringify(save)); } catch { /* quota / private mode */ }
+}
+
+export function listSlots(): SlotInfo[] {
+  const raw = readJSON(SLOTS_KEY);
+  return Array.isArray(raw) ? raw.filter((s): s is SlotInfo => isObj(s) && typeof s.name === "string" && typeof s.savedAt === "string") : [];
+}
+
+export function saveSlot(name: string, save: SaveGame) {
+  localStorage.setItem(slotKey(name), JSON.stringify(save));
+  const slots = listSlots().filter(s => s.name !== name);
+  slots.push({ name, savedAt: save.savedAt });
+  localStorage.setItem(SLOTS_KEY, JSON.stringify(slots));
+}
+
+export function loadSlot(name: string): SaveGame {
+  const raw = readJSON(slotKey(name));
+  if (!raw) fail(`slot "${name}" is empty`);
+  return parseSave(raw);
+}
+
+export function deleteSlot(name: string) {
+  localStorage.removeItem(slotKey(name));
+  localStorage.setItem(SLOTS_KEY, JSON.stringify(listSlots().filter(s => s.name !== name)));
+}
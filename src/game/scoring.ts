@@ -0,0 +1,70 @@
+import type { Resources } from "./types";
+import { CATALOG } from "./catalog";
+import { RESOURCE_KEYS, emptyResources, gain } from "./resources";
+
+/* ============ Word scoring ============ */
+
+/* Points per letter (shown on the rack tiles); rare letters are worth more */
+export const LETTER_VALUES: Record<string, number> = {
+  A:1, B:3, C:3, D:2, E:1, F:4, G:2, H:4, I:1, J:8, K:5, L:1, M:3,
+  N:1, O:1, P:3, Q:10, R:1, S:1, T:1, U:1, V:4, W:4, X:8, Y:4, Z:10,
+};
+export const letterValue = (ch: string) => LETTER_VALUES[ch] || 0;
+
+const RARE = /[JQXZKV]/;
+const VOWEL = /[AEIOU]/;
+
+/* Payout multiplier by word length; long words are worth far more than short ones */
+export function lengthMultiplier(len: number) {
+  return len >= 8 ? 3 : len === 7 ? 2.5 : len === 6 ? 2 : len === 5 ? 1.5 : len === 4 ? 1.25 : 1;
+}
+
+/* City-flavoured words earn a flat bonus of the matching resource */
+export const THEME_WORDS: Record<string, Partial<Resources>> = {
+  RIVER: { lumber: 2, coin: 2 }, BRIDGE: { lumber: 2, stone: 2 }, ROAD: { stone: 2 }, STREET: { stone: 3 },
+  STONE: { stone: 4 }, ROCK: { stone: 3 }, BRICK: { stone: 3 },
+  WOOD: { lumber: 3 }, TIMBER: { lumber: 4 }, FOREST: { lumber: 4 }, TREE: { lumber: 2 },
+  TOWN: { coin: 3 }, CITY: { coin: 3 }, GOLD: { coin: 4 }, COIN: { coin: 4 },
+  BOOK: { knowledge: 2 }, SCROLL: { knowledge: 3 }, STUDY: { knowledge: 3 },
+  MAGIC: { magic: 2 }, SPELL: { magic: 2 }, RUNE: { magic: 2 }, CHARM: { magic: 2 },
+};
+
+/* Building names pay twice what one building makes per tick (homes pay coin) */
+const BUILDING_WORDS: Record<string, Partial<Resources>> = Object.fromEntries(
+  CATALOG.map(b => [b.id.toUpperCase(), b.produces ? Object.fromEntries(Object.entries(b.produces).map(([k, v]) => [k, 2 * (v || 0)])) : { coin: 4 }]),
+);
+
+/* Using every tile on the rack */
+export const BINGO_BONUS: Partial<Resources> = { coin: 5, magic: 2 };
+
+export type WordScore = {
+  points: number;              // summed letter values
+  multiplier: number;          // length × mood
+  payout: Resources;
+  lines: string[];             // human-readable breakdown for the preview
+};
+
+/* Payout for a (valid) word; `rackSize` detects a bingo, `mood` is the happiness multiplier */
+export function scoreWord(word: string, rackSize: number, mood = 1): WordScore {
+  const letters = [...word];
+  const points = letters.reduce((n, ch) => n + letterValue(ch), 0);
+  const vowels = letters.filter(ch => VOWEL.test(ch)).length;
+  const consonants = letters.length - vowels;
+  const base: Resources = {
+    coin: Math.max(1, Math.ceil(points / 3)),
+    lumber: Math.floor(consonants / 3),
+    stone: Math.floor(consonants / 4),
+    knowledge: Math.floor(vowels / 2),
+    magic: letters.filter(ch => RARE.test(ch)).length,
+  };
+  const len = lengthMultiplier(word.length);
+  const multiplier = len * mood;
+  let payout = emptyResources();
+  RESOURCE_KEYS.forEach(k => payout[k] = Math.floor(base[k] * multiplier));
+
+  const lines = [`${points} pts, ${word.length} letters ×${len}${mood !== 1 ? `, mood ×${mood}` : ""}`];
+  const theme = THEME_WORDS[word] ?? BUILDING_WORDS[word];
+  if (theme) { payout = gain(payout, theme); lines.push(`Theme word: ${word[0]}${word.slice(1).toLowerCase()}`); }
+  if (word.length === rackSize) { payout = gain(payout, BINGO_BONUS); lines.push("Bingo: whole rack used"); }
+  return { points, multiplier, payout, lines };
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import type { Tile } from "./types";
+import { SEASON_TICKS, advanceCalendar, newCalendar } from "./seasons";
+
+const marsh: Tile[] = Array.from({ length: 100 }, () => ({ terrain: "grass", biome: "marsh" }));
+
+describe("advanceCalendar", () => {
+  it("starts a new world's first spring on its first tick", () => {
+    const step = advanceCalendar(newCalendar(), marsh, "seed");
+    expect(step.calendar.clock).toBe(1);
+    expect(step.news[0]).toMatch(/^Spring/);
+  });
+
+  it("can warn of a flood in the first spring", () => {
+    const floods = ["a", "b", "c", "d", "e", "f", "g", "h"].flatMap(seed =>
+      advanceCalendar(newCalendar(), marsh, seed).calendar.events.filter(e => e.kind === "flood"));
+    expect(floods.length).toBeGreaterThan(0);
+    floods.forEach(e => expect(e.kind === "flood" && e.until).toBe(SEASON_TICKS));
+  });
+
+  it("rolls later seasons once, on the tick that reaches them", () => {
+    let cal = newCalendar(), grid = marsh, starts = 0;
+    for (let t = 0; t < SEASON_TICKS * 4; t++) {
+      const step = advanceCalendar(cal, grid, "seed");
+      starts += step.news.filter(n => /^(Spring|Summer|Autumn|Winter):/.test(n)).length;
+      cal = step.calendar; grid = step.grid;
+    }
+    expect(starts).toBe(5);   // a year of seasons, then the next spring on tick 120
+  });
+});
@@ -0,0 +1,130 @@
+import type { Resources, Tile } from "./types";
+import type { HappinessFactor } from "./happiness";
+import { seededStream } from "./rng";
+import { gridSize, neighbours4, tilesWithin } from "./grid";
+
+/* ============ Seasons & events ============ */
+
+export type Season = "spring" | "summer" | "autumn" | "winter";
+export const SEASONS: Season[] = ["spring", "summer", "autumn", "winter"];
+export const SEASON_TICKS = 30;      // one season is this many simulation ticks
+
+/* Share of normal workplace output per resource (missing = unchanged) */
+export const SEASON_OUTPUT: Record<Season, Partial<Record<keyof Resources, number>>> = {
+  spring: {}, summer: {}, autumn: {}, winter: { lumber: 0.5 },
+};
+
+const SEASON_NEWS: Record<Season, string> = {
+  spring: "Spring: the thaw swells the river.",
+  summer: "Summer: long days, steady work.",
+  autumn: "Autumn: harvest time.",
+  winter: "Winter: sawmills work at half speed until spring.",
+};
+
+const FLOOD_CHANCE = 0.6;            // per spring, if there's marsh to flood
+const FLOOD_RADIUS = 6;              // around a random marsh tile
+const FLOOD_WARNING = 8;             // ticks between the warning and the water
+const LEVEE_STONE = 2;               // per threatened road tile
+const FESTIVAL_BONUS = 10, FUNDED_FESTIVAL_BONUS = 20;
+export const FEAST_COST: Partial<Resources> = { coin: 20 };
+
+/* Events in progress. A flood warns first, hits at `at`, and recedes at `until`. */
+export type WorldEvent =
+  | { kind: "flood"; tiles: number[]; at: number; until: number; levees: boolean; hit: boolean }
+  | { kind: "festival"; until: number; funded: boolean };
+
+export type LogEntry = { clock: number; text: string };
+
+/* Saved with the game: ticks elapsed since the world began, active events and recent news */
+export type Calendar = { clock: number; events: WorldEvent[]; log: LogEntry[] };
+export const newCalendar = (): Calendar => ({ clock: 0, events: [], log: [] });
+
+const LOG_LIMIT = 30;
+
+export const seasonOf = (clock: number) => SEASONS[Math.floor(clock / SEASON_TICKS) % SEASONS.length];
+export const yearOf = (clock: number) => Math.floor(clock / (SEASON_TICKS * SEASONS.length)) + 1;
+export const dateLabel = (clock: number) => `${seasonOf(clock)[0].toUpperCase()}${seasonOf(clock).slice(1)}, year ${yearOf(clock)}`;
+
+const floodable = (t?: Tile) => !!t && t.terrain === "grass" && t.biome === "marsh" && !t.structure;
+
+/* Road tiles (not bridges) a flood over `tiles` would wash out */
+export function threatenedRoads(grid: Tile[], tiles: number[]): number[] {
+  const size = gridSize(grid), wet = new Set(tiles), out = new Set<number>();
+  tiles.forEach(i => neighbours4(i, size).forEach(n => { if (!wet.has(n) && grid[n].terrain === "road") out.add(n); }));
+  return [...out];
+}
+
+export const leveeCost = (grid: Tile[], flood: { tiles: number[] }): Partial<Resources> =>
+  ({ stone: Math.max(5, LEVEE_STONE * threatenedRoads(grid, flood.tiles).length) });
+
+/* Events rolled when the season starting at `start` begins (on tick `now`); seeded so a world's weather
+   is the same on every replay */
+function seasonEvents(seed: string, start: number, now: number, grid: Tile[]): { events: WorldEvent[]; news: string[] } {
+  const season = seasonOf(start), end = start + SEASON_TICKS;
+  const rnd = seededStream(seed, `season:${Math.floor(start / SEASON_TICKS)}`);
+  if (season === "autumn") return { events: [{ kind: "festival", until: end, funded: false }], news: [`Harvest festival! Happiness +${FESTIVAL_BONUS} this autumn.`] };
+  if (season !== "spring" || rnd() >= FLOOD_CHANCE) return { events: [], news: [] };
+
+  const marsh = grid.flatMap((t, i) => floodable(t) ? [i] : []);
+  if (!marsh.length) return { events: [], news: [] };
+  const centre = marsh[Math.floor(rnd() * marsh.length)];
+  const tiles = tilesWithin(centre, FLOOD_RADIUS, gridSize(grid)).filter(i => floodable(grid[i]));
+  const roads = threatenedRoads(grid, tiles).length;
+  return {
+    events: [{ kind: "flood", tiles, at: now + FLOOD_WARNING, until: end, levees: false, hit: false }],
+    news: [`Flood warning! The river will spill over ${tiles.length} marsh tiles in ${FLOOD_WARNING} ticks${roads ? `, threatening ${roads} road tile${roads > 1 ? "s" : ""}` : ""}.`],
+  };
+}
+
+/* One simulation tick of calendar time: run events due now, then roll a new season's events */
+export function advanceCalendar(cal: Calendar, grid: Tile[], seed: string): { calendar: Calendar; grid: Tile[]; news: string[] } {
+  const clock = cal.clock + 1, news: string[] = [];
+  let next = grid;
+  const events = cal.events.flatMap<WorldEvent>(e => {
+    if (e.kind === "festival") {
+      if (clock < e.until) return [e];
+      news.push("The harvest festival is over."); return [];
+    }
+    if (!e.hit && clock >= e.at) {
+      const tiles = e.tiles.filter(i => floodable(next[i]));
+      const washed = e.levees ? [] : threatenedRoads(next, tiles);
+      next = next.slice();
+      tiles.forEach(i => next[i] = { ...next[i], terrain: "water" });
+      washed.forEach(i => next[i] = { ...next[i], terrain: "grass" });
+      news.push(e.levees ? "The flood came and the levees held." : washed.length ? `The flood washed away ${washed.length} road tile${washed.length > 1 ? "s" : ""}.` : "The river flooded the marsh.");
+      return [{ ...e, tiles, hit: true }];
+    }
+    if (e.hit && clock >= e.until) {
+      next = next.slice();
+      e.tiles.forEach(i => { if (next[i].terrain === "water") next[i] = { ...next[i], terrain: "grass" }; });
+      news.push("The floodwater has drained back into the river."); return [];
+    }
+    return [e];
+  });
+
+  // later seasons start on the tick that reaches them; a new world's first spring on its first tick
+  const start = clock % SEASON_TICKS === 0 ? clock : cal.clock === 0 ? 0 : null;
+  if (start !== null) {
+    news.push(SEASON_NEWS[seasonOf(start)]);
+    const rolled = seasonEvents(seed, start, clock, next);
+    events.push(...rolled.events); news.push(...rolled.news);
+  }
+
+  const log = news.length ? [...cal.log, ...news.map(text => ({ clock, text }))].slice(-LOG_LIMIT) : cal.log;
+  return { calendar: { clock, events, log }, grid: next, news };
+}
+
+/* ============ Responses ============ */
+
+export function buildLevees(cal: Calendar, k: number): Calendar {
+  return { ...cal, events: cal.events.map((e, j) => j === k && e.kind === "flood" ? { ...e, levees: true } : e) };
+}
+
+export function fundFestival(cal: Calendar, k: number): Calendar {
+  return { ...cal, events: cal.events.map((e, j) => j === k && e.kind === "festival" ? { ...e, funded: true } : e) };
+}
+
+/* Mood from events in progress, appended to the happiness breakdown */
+export function eventHappiness(cal: Calendar): HappinessFactor[] {
+  return cal.events.flatMap(e => e.kind === "festival" ? [{ label: "Harvest festival", value: e.funded ? FUNDED_FESTIVAL_BONUS : FESTIVAL_BONUS }] : []);
+}
@@ -0,0 +1,45 @@
+import type { Biome, Resources, Tile } from "./types";
+import { tilesWithin } from "./grid";
+
+/* ============ Spells ============ */
+
+export type SpellId = "clear" | "drain" | "raise" | "grow" | "reroll";
+
+export type Spell = {
+  id: SpellId; name: string; icon: string; desc: string;
+  cost: Partial<Resources>;
+  radius?: number;           // targeted spells reshape tiles this far from the clicked one
+};
+
+export const SPELLS: Spell[] = [
+  { id: "clear",  name: "Clear Thicket", icon: "🔥", desc: "Thicket becomes meadow.",               cost: { magic: 3 }, radius: 2 },
+  { id: "drain",  name: "Drain Marsh",   icon: "💧", desc: "Marsh becomes meadow.",                 cost: { magic: 2 }, radius: 2 },
+  { id: "raise",  name: "Raise Land",    icon: "⛰️", desc: "Open water becomes meadow.",            cost: { magic: 5 }, radius: 1 },
+  { id: "grow",   name: "Grow Forest",   icon: "🌲", desc: "Bare meadow becomes forest (sawmills love it).", cost: { magic: 3 }, radius: 2 },
+  { id: "reroll", name: "Reroll Rack",   icon: "🎲", desc: "Trade the whole rack for new letters.", cost: { magic: 2 } },
+];
+export const SPELLS_BY_ID = Object.fromEntries(SPELLS.map(s => [s.id, s])) as Record<SpellId, Spell>;
+
+/* Which tiles a terrain spell changes, and into what */
+const EFFECTS: Partial<Record<SpellId, { affects: (t: Tile) => boolean; becomes: (t: Tile) => Tile; none: string }>> = {
+  clear: { affects: t => t.terrain === "grass" && t.biome === "thicket", becomes: t => ({ ...t, biome: "meadow" }), none: "No thicket in range." },
+  drain: { affects: t => t.terrain === "grass" && t.biome === "marsh", becomes: t => ({ ...t, biome: "meadow" }), none: "No marsh in range." },
+  raise: { affects: t => t.terrain === "water" && !t.structure, becomes: t => ({ ...t, terrain: "grass", biome: "meadow" as Biome }), none: "No open water in range." },
+  grow:  { affects: t => t.terrain === "grass" && t.biome === "meadow" && !t.structure, becomes: t => ({ ...t, biome: "forest" }), none: "No bare meadow in range." },
+};
+
+/* Same shape as checkPlacement: what casting at `target` would do, or why it can't */
+export type SpellCast =
+  | { ok: true; grid: Tile[]; tiles: number[]; changed: number; cost: Partial<Resources> }
+  | { ok: false; reason: string; tiles: number[] };
+
+export function castSpell(grid: Tile[], size: number, id: SpellId, target: number): SpellCast {
+  const spell = SPELLS_BY_ID[id], effect = EFFECTS[id];
+  if (!effect || spell.radius === undefined) return { ok: false, reason: `${spell.name} doesn't target the map.`, tiles: [] };
+  const tiles = tilesWithin(target, spell.radius, size);
+  const hit = tiles.filter(i => effect.affects(grid[i]));
+  if (!hit.length) return { ok: false, reason: effect.none, tiles };
+  const next = grid.slice();
+  hit.forEach(i => next[i] = effect.becomes(next[i]));
+  return { ok: true, grid: next, tiles, changed: hit.length, cost: spell.cost };
+}
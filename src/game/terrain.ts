@@ -0,0 +1,51 @@
+import type { Biome, Tile } from "./types";
+import { makeRNG, hashSeed } from "./rng";
+import { xyToIdx, idxToXY } from "./grid";
+import { withTownCentre } from "./network";
+
+/* ============ World generation ============ */
+
+export function generateTerrain(size:number, seedStr:string): Tile[] {
+  const tiles: Tile[] = Array(size*size).fill(0).map(()=>({ terrain:"grass", biome:"meadow" as Biome }));
+  const rnd = makeRNG(hashSeed(seedStr));
+  // River
+  let y = Math.floor(size/3 + rnd()*size/3);
+  for (let x=0;x<size;x++){
+    const width = 1 + (rnd()<0.45?0:1);
+    for (let dy=-width; dy<=width; dy++){ const yy=y+dy; if(yy>=0&&yy<size) tiles[xyToIdx(x,yy,size)].terrain="water"; }
+    if (rnd()<0.08){
+      const r=1+Math.floor(rnd()*2);
+      for (let dx=-r;dx<=r;dx++) for (let dy=-r;dy<=r;dy++){
+        const xx=x+dx,yy=y+dy; if(xx>=0&&yy>=0&&xx<size&&yy<size) tiles[xyToIdx(xx,yy,size)].terrain="water";
+      }
+    }
+    y += [-1,0,1][Math.floor(rnd()*3)];
+    y = Math.max(1, Math.min(size-2, y));
+  }
+  // Biome patches
+  const patch=(type:Biome,attempts:number,radius:number,prob=0.8)=>{
+    for(let i=0;i<attempts;i++){
+      const cx=Math.floor(rnd()*size), cy=Math.floor(rnd()*size);
+      for(let dx=-radius;dx<=radius;dx++) for(let dy=-radius;dy<=radius;dy++){
+        const xx=cx+dx, yy=cy+dy; if(xx<0||yy<0||xx>=size||yy>=size) continue;
+        const ii=xyToIdx(xx,yy,size); if(tiles[ii].terrain==="water") continue;
+        if(Math.hypot(dx,dy)<=radius && rnd()<prob) tiles[ii].biome=type;
+      }
+    }
+  };
+  patch("forest",12,2); patch("hill",10,2); patch("thicket",5,2,0.9);
+  // Marsh near water
+  for (let i=0;i<tiles.length;i++){
+    if (tiles[i].terrain==="water") continue;
+    const {x,y}=idxToXY(i,size);
+    const near=[[1,0],[-1,0],[0,1],[0,-1]].some(([dx,dy])=>{
+      const xx=x+dx,yy=y+dy; if(xx<0||yy<0||xx>=size||yy>=size) return false;
+      return tiles[xyToIdx(xx,yy,size)].terrain==="water";
+    });
+    if (near && tiles[i].biome==="meadow") tiles[i].biome="marsh";
+  }
+  return tiles;
+}
+
+/* Fresh terrain for a seed, with the town centre the road network grows from */
+export function freshGrid(seed: string, size: number): Tile[] { return withTownCentre(generateTerrain(size, seed), size); }
@@ -0,0 +1,36 @@
+import type { Resources, Tier, Tile } from "./types";
+import type { Economy } from "./economy";
+import { placedBuildings } from "./economy";
+import { CATALOG, TOWN_CENTRE } from "./catalog";
+
+/* ============ Tier progression ============ */
+
+type TierRule = { population: number; distinct: number; knowledge: number };
+
+/* What a town needs to reach each tier; the knowledge is spent on advancing */
+export const TIER_RULES: Record<2 | 3, TierRule> = {
+  2: { population: 9,  distinct: 3, knowledge: 10 },
+  3: { population: 30, distinct: 5, knowledge: 40 },
+};
+
+export type TierGoal = { label: string; have: number; need: number };
+export type TierProgress = { next: 2 | 3; goals: TierGoal[]; ready: boolean; cost: Partial<Resources> };
+
+export function minWordLength(tier: Tier){ return tier>=2?4:3; }
+
+/* Progress toward the next tier, or null at the top tier */
+export function tierProgress(tier: Tier, grid: Tile[], econ: Economy, res: Resources): TierProgress | null {
+  if (tier >= 3) return null;
+  const next = (tier + 1) as 2 | 3;
+  const rule = TIER_RULES[next];
+  const distinct = new Set(placedBuildings(grid).filter(b => b.def.id !== TOWN_CENTRE.id).map(b => b.def.id)).size;
+  const goals: TierGoal[] = [
+    { label: "Population", have: econ.population, need: rule.population },
+    { label: "Building types", have: distinct, need: rule.distinct },
+    { label: "Knowledge to spend", have: res.knowledge, need: rule.knowledge },
+  ];
+  return { next, goals, ready: goals.every(g => g.have >= g.need), cost: { knowledge: rule.knowledge } };
+}
+
+/* Catalog entries that first become available at a tier */
+export function unlockedAt(tier: Tier){ return CATALOG.filter(b => b.tier === tier && !b.research); }
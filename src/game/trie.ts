@@ -0,0 +1,66 @@
+/* ============ Packed word trie ============ */
+
+/* First-child/next-sibling trie in typed arrays, so it can be built in a worker and transferred.
+   Node 0 is the root; -1 means "none". */
+export type Trie = {
+  letter: Uint8Array;     // char code of the edge into each node
+  child: Int32Array;      // first child
+  sibling: Int32Array;    // next sibling under the same parent
+  terminal: Uint8Array;   // 1 when the path to this node spells a word
+  words: number;
+};
+
+/* Build from upper-case words; `onProgress` gets the share of words inserted so far */
+export function buildTrie(words: string[], onProgress?: (share: number) => void): Trie {
+  const letter = [0], child = [-1], sibling = [-1], terminal = [0];
+  let count = 0;
+  words.forEach((w, k) => {
+    let node = 0;
+    for (let i = 0; i < w.length; i++) {
+      const c = w.charCodeAt(i);
+      let prev = -1, n = child[node];
+      while (n >= 0 && letter[n] !== c) { prev = n; n = sibling[n]; }
+      if (n < 0) {
+        n = letter.length;
+        letter.push(c); child.push(-1); sibling.push(-1); terminal.push(0);
+        if (prev < 0) child[node] = n; else sibling[prev] = n;
+      }
+      node = n;
+    }
+    if (!terminal[node]) { terminal[node] = 1; count++; }
+    if (onProgress && k % 10000 === 0) onProgress(k / words.length);
+  });
+  return {
+    letter: Uint8Array.from(letter), child: Int32Array.from(child), sibling: Int32Array.from(sibling),
+    terminal: Uint8Array.from(terminal), words: count,
+  };
+}
+
+/* Child of `from` along letter `ch`, or -1 */
+export function trieStep(t: Trie, from: number, ch: string): number {
+  const c = ch.charCodeAt(0);
+  for (let n = t.child[from]; n >= 0; n = t.sibling[n]) if (t.letter[n] === c) return n;
+  return -1;
+}
+
+export function trieHas(t: Trie, word: string): boolean {
+  let node = 0;
+  for (const ch of word) { node = trieStep(t, node, ch); if (node < 0) return false; }
+  return node > 0 && t.terminal[node] === 1;
+}
+
+/* Every word spellable from letter counts `have` (as from countChars), each visited once */
+export function trieWordsFrom(t: Trie, have: Record<string, number>, visit: (word: string) => void) {
+  const left = { ...have }, path: string[] = [];
+  const walk = (node: number) => {
+    if (node > 0 && t.terminal[node]) visit(path.join(""));
+    for (let n = t.child[node]; n >= 0; n = t.sibling[n]) {
+      const ch = String.fromCharCode(t.letter[n]);
+      if (!left[ch]) continue;
+      left[ch]--; path.push(ch);
+      walk(n);
+      path.pop(); left[ch]++;
+    }
+  };
+  walk(0);
+}
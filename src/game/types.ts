@@ -0,0 +1,41 @@
+/* Shared game types (App state, save files, simulation) */
+
+export type Resources = { coin: number; lumber: number; stone: number; knowledge: number; magic: number };
+export type Biome = "meadow" | "forest" | "hill" | "marsh" | "thicket";
+export type Terrain = "grass" | "water" | "road" | "bridge";
+export type Structure = {
+  id: string;
+  level: number;
+  icon: string;
+  w: number;
+  h: number;
+  anchor: boolean;      // only true on the top-left tile of the footprint
+  origin: number;       // index of the top-left tile (so we can remove the whole bldg from any tile)
+};
+export type Tile = {
+  terrain: Terrain;
+  biome: Biome;
+  structure?: Structure;
+};
+/* Extra placement requirements a catalog entry can declare (on top of the defaults in placement.ts) */
+export type PlacementRule =
+  | { kind: "shore" }                          // part of the footprint over water, part on land
+  | { kind: "touches"; biome: Biome };         // footprint on or next to this biome
+
+/* Production bonus for each `every` tiles of `biome` bordering the footprint */
+export type AdjacencyBonus = { biome: Biome; every: number; gives: Partial<Resources> };
+
+export type Building = {
+  id: string; name: string; icon: string; tier: 1 | 2 | 3;
+  w: number; h: number;
+  cost: Partial<Resources>; happiness?: number; housing?: number;
+  workers?: number;                 // population needed to run it each tick
+  produces?: Partial<Resources>;    // per tick, when staffed
+  consumes?: Partial<Resources>;    // per tick; a converter idles if the city can't supply it
+  serves?: number;                  // homes within this many tiles count as covered (markets, libraries)
+  nuisance?: number;                // homes within this many tiles are unhappy about noise/dust
+  rules?: PlacementRule[];
+  bonus?: AdjacencyBonus;
+  research?: boolean;               // only buildable once a research node unlocks it (game/research.ts)
+};
+export type Tier = 1 | 2 | 3;
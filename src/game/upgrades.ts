@@ -0,0 +1,32 @@
+import type { Building, Resources, Tile } from "./types";
+import { TOWN_CENTRE } from "./catalog";
+
+/* ============ Building upgrades ============ */
+
+export const MAX_LEVEL = 3;
+
+/* Output, upkeep and housing grow by half the base amount per level */
+export function levelScale(amount: number, level: number){ return Math.round(amount * (1 + 0.5 * (level - 1))); }
+
+export function scaleAll(amounts: Partial<Resources> | undefined, level: number): Partial<Resources> {
+  const out: Partial<Resources> = {};
+  (Object.keys(amounts || {}) as (keyof Resources)[]).forEach(k => out[k] = levelScale(amounts![k] || 0, level));
+  return out;
+}
+
+/* The town centre is free to place, so it would upgrade for nothing; it stays at level 1 */
+export const canUpgrade = (def: Building) => def.id !== TOWN_CENTRE.id;
+
+/* Cost to go from `level` to `level + 1`: the build cost, 1.5× steeper each level */
+export function upgradeCost(def: Building, level: number): Partial<Resources> {
+  const out: Partial<Resources> = {};
+  (Object.keys(def.cost) as (keyof Resources)[]).forEach(k => out[k] = Math.ceil((def.cost[k] || 0) * Math.pow(1.5, level)));
+  return out;
+}
+
+/* Bump the level on every footprint tile that shares `origin` */
+export function upgradeAt(grid: Tile[], origin: number): Tile[] {
+  return grid.map(t => t.structure && t.structure.origin === origin
+    ? { ...t, structure: { ...t.structure, level: t.structure.level + 1 } }
+    : t);
+}
@@ -1,4 +1,4 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
 import {
   Application,
   Container,
@@ -8,7 +8,13 @@ import {
   RenderTexture,
   Rectangle,
 } from 'pixi.js';
-import { grassG, forestG, hillG, marshG, thicketG, waterG, roadG, bridgeG } from './textures';
+import {
+  grassG, forestG, hillG, marshG, thicketG, waterG, roadTileG, bridgeTileG, GFactory,
+  N, E, S, W, ROAD_MASKS, BRIDGE_CODES, SEASON_TINT,
+} from './textures';
+import { seededStream, RNG } from '../game/rng';
+import { screenToWorld, tileAt } from '../game/grid';
+import type { Season } from '../game/seasons';
 
 type Biome = 'meadow' | 'forest' | 'hill' | 'marsh' | 'thicket';
 type Structure = { id: string; level: number; icon: string; w: number; h: number; anchor: boolean; origin: number };
@@ -17,14 +23,25 @@ type Tile = { terrain: 'grass'|'water'|'road'|'bridge'; biome: Biome; structure?
 type Props = {
   tiles: Tile[];
   size: number;        // grid dimension (e.g., 54)
+  seed: string;        // world seed; tile and building decoration is drawn from it
   tileSize?: number;   // tile pixels (e.g., 28)
   ghost?: number[] | null;
+  ghostValid?: boolean;        // ghost drawn green when true, red when false
+  overlay?: number[] | null;   // per-tile value in [-1, 1]; tinted green (+) / red (−)
+  inactive?: Set<number>;      // origins of buildings drawn greyed-out (e.g. cut off from roads)
   onClick?(idx: number): void;
   onDrag?(idx: number): void;
+  onDragEnd?(): void;  // pointer released after a press (drag strokes end here)
+  onHover?(idx: number | null): void;  // tile under the pointer, null when it leaves the grid
+  paintTool?: boolean;         // plain drags paint through onDrag; pan with Space, right or middle button
+  home?: number | null;        // tile the camera starts on (e.g. the town centre)
+  season?: Season;             // tints the terrain palette
 };
 
-/* Simple cozy-fantasy building painter */
-function paintBuilding(id:string, wpx:number, hpx:number): Graphics {
+export type MapViewHandle = { centreOn(idx: number): void };
+
+/* Simple cozy-fantasy building painter; higher levels add a storey, a flag and lit windows */
+function paintBuilding(id:string, wpx:number, hpx:number, rnd:RNG, level = 1): Graphics {
   const g = new Graphics();
   // Base body
   const body = 0x3b2f2f;
@@ -53,8 +70,8 @@ function paintBuilding(id:string, wpx:number, hpx:number): Graphics {
       roof(0x707070);
       // stone chunks
       for (let i=0;i<6;i++){
-        const rx = 8 + Math.random()*(wpx-24);
-        const ry = 12 + Math.random()*(hpx-28);
+        const rx = 8 + rnd()*(wpx-24);
+        const ry = 12 + rnd()*(hpx-28);
         g.roundRect(rx, ry, 10, 8, 2).fill(0x9a9a9a).stroke({ color:0x5a5a5a, width:1, alpha:0.6 });
       }
       break;
@@ -80,23 +97,178 @@ function paintBuilding(id:string, wpx:number, hpx:number): Graphics {
       g.roundRect(0, hpx*0.25, wpx, hpx*0.5, 4).fill(0x8b6b4a);
       post(6); post(wpx-10);
       break;
+    case 'centre':
+      // cobbled plaza with a fountain and a notice post
+      g.clear();
+      g.roundRect(1, 1, wpx-2, hpx-2, 8).fill(0xc8b89a).stroke({ color: stroke, width: 2, alpha: 0.4 });
+      for (let y=6; y<hpx-4; y+=8) for (let x=6 + (y%16 ? 4 : 0); x<wpx-4; x+=8) g.roundRect(x, y, 5, 4, 1).fill({ color:0x9c8b6e, alpha:0.5 });
+      g.circle(wpx/2, hpx/2, Math.min(wpx,hpx)*0.22).fill(0x8e8e8e).stroke({ color:0x5a5a5a, width:2 });
+      g.circle(wpx/2, hpx/2, Math.min(wpx,hpx)*0.15).fill(0x78b7e6);
+      g.rect(6, 6, 3, 14).fill(0x6b4e31);
+      g.rect(3, 6, 9, 6).fill(0xfef3c7);
+      break;
+    case 'townhall':
+      roof(0x9b2c2c);
+      // clock, columns and a big door
+      g.circle(wpx/2, hpx*0.3, 7).fill(0xfef3c7).stroke({ color:0x2a2a2a, width:1, alpha:0.6 });
+      g.moveTo(wpx/2, hpx*0.3).lineTo(wpx/2, hpx*0.3-5).stroke({ color:0x2a2a2a, width:1 });
+      for (let px = 12; px < wpx-12; px += 14) g.roundRect(px, hpx*0.45, 5, hpx*0.45, 2).fill(0xdedede);
+      g.roundRect(wpx/2-7, hpx-26, 14, 22, 4).fill(0x333333);
+      // flag
+      g.rect(wpx/2-1, -10, 2, 12).fill(0x4a3728);
+      g.poly([wpx/2+1,-10, wpx/2+11,-6, wpx/2+1,-2]).fill(0xfacc15);
+      break;
+    case 'wizard': {
+      // slender tower with a pointed hat
+      const tw = wpx*0.45, tx = (wpx-tw)/2;
+      g.roundRect(tx, hpx*0.3, tw, hpx*0.65, 4).fill(0x4c3d7a).stroke({ color: stroke, width: 2, alpha: 0.5 });
+      g.poly([tx-4, hpx*0.3, tx+tw+4, hpx*0.3, wpx/2, -hpx*0.2]).fill(0x6d28d9);
+      g.star(wpx/2, hpx*0.05, 5, 4, 2).fill(0xfde68a);
+      windowRect(wpx/2-4, hpx*0.45);
+      g.roundRect(wpx/2-5, hpx-18, 10, 14, 4).fill(0x1e1b1b);
+      break;
+    }
+    case 'harbor':
+      // quay deck, warehouse and a crane
+      g.roundRect(0, hpx*0.55, wpx, hpx*0.4, 4).fill(0x8b6b4a);
+      for (let x=6; x<wpx-6; x+=10) g.rect(x, hpx*0.55, 2, hpx*0.4).fill({ color:0x5b4330, alpha:0.6 });
+      g.roundRect(6, 8, wpx*0.45, hpx*0.45, 3).fill(0x7a5a3c);
+      roof(0x3f6e8c);
+      g.rect(wpx*0.72, 4, 4, hpx*0.55).fill(0x4a3728);
+      g.moveTo(wpx*0.72, 6).lineTo(wpx-4, 6).stroke({ color:0x4a3728, width:3 });
+      g.moveTo(wpx-6, 6).lineTo(wpx-6, hpx*0.4).stroke({ color:0x2a2a2a, width:1 });
+      break;
+    case 'orchard':
+      // fenced rows of fruit trees
+      g.clear();
+      g.roundRect(1, 1, wpx-2, hpx-2, 6).fill(0x7fa36b).stroke({ color: 0x6b4e31, width: 2, alpha: 0.8 });
+      for (let y=hpx*0.3; y<hpx-4; y+=hpx*0.35) for (let x=wpx*0.2; x<wpx-4; x+=wpx*0.3) {
+        g.circle(x, y, 6).fill(0x3f7d3a);
+        g.circle(x-2, y-1, 1.5).fill(0xef4444); g.circle(x+2, y+2, 1.5).fill(0xef4444);
+      }
+      break;
+    case 'observatory':
+      // drum with a domed roof and a telescope slot
+      g.roundRect(4, hpx*0.45, wpx-8, hpx*0.5, 4).fill(0xcfc6b8).stroke({ color: stroke, width: 2, alpha: 0.5 });
+      g.moveTo(4, hpx*0.45).arc(wpx/2, hpx*0.45, wpx/2-4, Math.PI, 0).fill(0x64748b);
+      g.rect(wpx/2-2, hpx*0.1, 4, hpx*0.3).fill(0x1e293b);
+      g.roundRect(wpx/2-5, hpx-18, 10, 14, 4).fill(0x333333);
+      break;
     default:
       roof(0x8b5a2b);
   }
+
+  if (level >= 2) {
+    // extra storey: a second roof line with a row of windows above the body
+    g.roundRect(6, -8, wpx-12, 12, 3).fill(body).stroke({ color: stroke, width: 1, alpha: 0.5 });
+    g.poly([6,-8, wpx-6,-8, wpx-12,-13, 12,-13]).fill(0x8b5a2b);
+    for (let x=10; x<wpx-14; x+=12) g.rect(x, -5, 5, 5).fill(level >= 3 ? 0xfde68a : 0xe6f0ff);
+    // flag
+    g.rect(wpx-8, -24, 2, 12).fill(0x4a3728);
+    g.poly([wpx-6,-24, wpx+3,-21, wpx-6,-18]).fill(level >= 3 ? 0xfacc15 : 0xef4444);
+  }
+  if (level >= 3) {
+    // warm glow from lit windows
+    g.circle(wpx/2, hpx/2, Math.min(wpx, hpx)*0.35).fill({ color: 0xfde68a, alpha: 0.12 });
+  }
   return g;
 }
 
-export default function MapView({ tiles, size, tileSize = 28, ghost, onClick, onDrag }: Props) {
+const CHUNK = 16; // tiles per chunk side; chunks are culled as a unit
+
+type Chunk = { base: Container; roads: Container; structs: Container };
+
+/* Retained scene: one sprite per tile (+ one per road/water overlay) and one Graphics per building,
+   updated in place by diffing the incoming tiles against the last ones drawn */
+type Scene = {
+  world: Container;
+  chunks: Chunk[];
+  perRow: number;                               // chunks per row
+  bg: (Sprite | null)[];                        // biome sprite per tile
+  terrain: (Sprite | null)[];                   // water/road/bridge sprite per tile
+  buildings: Map<number, { g: Graphics; key: string }>;   // by origin
+  prev: Tile[] | null;                          // tiles last drawn
+  prevInactive: Set<number>;
+  cull(): void;
+  lookAt(x: number, y: number): void;           // centre the camera on a world-space point
+};
+
+const MIN_ZOOM = 0.5, MAX_ZOOM = 2.5;
+const PAN_MARGIN = 48;   // px of empty space allowed past the grid edge
+const KEY_PAN = 48;      // px per arrow/WASD press
+const DRAG_SLOP = 6;     // px a pointer may wander before a press stops counting as a click
+const MINIMAP = 150;     // minimap side in CSS px
+
+/* What the pointer(s) are doing since the last press */
+type Gesture =
+  | { kind: 'press'; id: number; sx: number; sy: number; pan: boolean }   // not yet past DRAG_SLOP
+  | { kind: 'pan'; id: number; lx: number; ly: number }
+  | { kind: 'paint'; id: number; last: number | null }
+  | { kind: 'pinch'; dist: number; mx: number; my: number }
+  | { kind: 'spent' };                                                     // wait for every pointer to lift
+
+/* Minimap colours, matching the tile palettes */
+const MINI_BIOME: Record<Biome, [number, number, number]> = {
+  meadow: [158, 203, 151], forest: [77, 122, 79], hill: [166, 196, 159], marsh: [139, 181, 162], thicket: [46, 92, 50],
+};
+function miniColor(t: Tile, tint = 0xffffff): [number, number, number] {
+  if (t.structure) return [59, 47, 47];
+  if (t.terrain === 'road') return [107, 87, 67];
+  if (t.terrain === 'bridge') return [180, 142, 110];
+  const [r, g, b] = t.terrain === 'water' ? [63, 138, 200] : MINI_BIOME[t.biome] || MINI_BIOME.meadow;
+  return [r * (tint >> 16) / 255, g * ((tint >> 8) & 0xff) / 255, b * (tint & 0xff) / 255];
+}
+
+export default forwardRef<MapViewHandle, Props>(function MapView({ tiles, size, seed, tileSize = 28, ghost, ghostValid = true, overlay, inactive, onClick, onDrag, onDragEnd, onHover, home, paintTool = false, season = 'summer' }, ref) {
   const hostRef = useRef<HTMLDivElement>(null);
+  const miniRef = useRef<HTMLCanvasElement>(null);
+  const miniTerrain = useRef<HTMLCanvasElement | null>(null);   // one pixel per tile, scaled up on draw
   const appRef = useRef<Application | null>(null);
-  const layersRef = useRef<{ base: Container; roads: Container; structs: Container; ghost: Container } | null>(null);
+  const layersRef = useRef<{ base: Container; roads: Container; overlay: Container; structs: Container; ghost: Container } | null>(null);
+  const sceneRef = useRef<Scene | null>(null);
   const texRef = useRef<{ [k: string]: Texture } | null>(null);
-  const dragging = useRef<{ down: boolean; lx: number; ly: number }>({ down: false, lx: 0, ly: 0 });
   const [readyBump, setReadyBump] = useState(0); // triggers redraw after textures build
 
+  // Callbacks change identity on every App render; read them through a ref so the Application survives
+  const cbRef = useRef({ onClick, onDrag, onDragEnd, onHover, paintTool });
+  cbRef.current = { onClick, onDrag, onDragEnd, onHover, paintTool };
+  const hoverIdx = useRef<number | null>(null);
+  const homeRef = useRef(home); homeRef.current = home;
+
+  useImperativeHandle(ref, () => ({
+    centreOn(idx: number) { sceneRef.current?.lookAt(((idx % size) + 0.5) * tileSize, (Math.floor(idx / size) + 0.5) * tileSize); },
+  }), [size, tileSize]);
+
+  /* Minimap: terrain image plus the camera's viewport rectangle */
+  const drawMinimap = () => {
+    const c = miniRef.current, img = miniTerrain.current, scene = sceneRef.current, app = appRef.current;
+    const ctx = c?.getContext('2d');
+    if (!c || !ctx || !img) return;
+    ctx.imageSmoothingEnabled = false;
+    ctx.clearRect(0, 0, c.width, c.height);
+    ctx.drawImage(img, 0, 0, c.width, c.height);
+    if (!scene || !app) return;
+    const k = c.width / (size * tileSize);
+    const tl = scene.world.toLocal({ x: 0, y: 0 }), br = scene.world.toLocal({ x: app.screen.width, y: app.screen.height });
+    ctx.strokeStyle = '#fef3c7'; ctx.lineWidth = 1.5;
+    ctx.strokeRect(tl.x * k, tl.y * k, (br.x - tl.x) * k, (br.y - tl.y) * k);
+  };
+  const drawMinimapRef = useRef(drawMinimap); drawMinimapRef.current = drawMinimap;
+
+  const jumpFromMinimap = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!e.buttons) return;
+    const r = e.currentTarget.getBoundingClientRect();
+    const k = (size * tileSize) / r.width;
+    sceneRef.current?.lookAt((e.clientX - r.left) * k, (e.clientY - r.top) * k);
+  };
+
   // Mount & init (Pixi v8) with WebGL + manual resize (stable)
   useEffect(() => {
     let ro: ResizeObserver | null = null;
+    const unlisten: (() => void)[] = [];
+    const listen = <K extends keyof WindowEventMap>(type: K, fn: (ev: WindowEventMap[K]) => void) => {
+      window.addEventListener(type, fn); unlisten.push(() => window.removeEventListener(type, fn));
+    };
     let cancelled = false;
 
     (async () => {
@@ -120,64 +292,195 @@ export default function MapView({ tiles, size, tileSize = 28, ghost, onClick, on
       host.appendChild(app.canvas);
       console.log('MapView v8 (webgl) stable');
 
-      const world = new Container();
-      world.eventMode = 'static';
+      const world = new Container();   // input is handled on the canvas below, not through Pixi events
 
       const base = new Container();
       const roads = new Container();
+      const overlayL = new Container();
       const structs = new Container();
       const ghostL = new Container();
-      world.addChild(base, roads, structs, ghostL);
+      world.addChild(base, roads, overlayL, structs, ghostL);
       app.stage.addChild(world);
 
-      // hit area covers whole grid for reliable pointer hits
-      const gridW = size * tileSize;
-      const gridH = size * tileSize;
-      world.hitArea = new Rectangle(0, 0, gridW, gridH);
-
-      // ---- Pan & zoom
-      world.on('pointerdown', (e: any) => { dragging.current.down = true; dragging.current.lx = e.global.x; dragging.current.ly = e.global.y; });
-      world.on('pointerup', () => { dragging.current.down = false; });
-      world.on('pointerupoutside', () => { dragging.current.down = false; });
-      world.on('globalpointermove', (e: any) => {
-        if (!dragging.current.down) return;
-        const dx = e.global.x - dragging.current.lx;
-        const dy = e.global.y - dragging.current.ly;
-        world.x += dx; world.y += dy;
-        dragging.current.lx = e.global.x; dragging.current.ly = e.global.y;
-      });
+      // Chunk containers, one per layer, so off-screen parts of the map can be skipped wholesale
+      const perRow = Math.ceil(size / CHUNK);
+      const chunks: Chunk[] = [];
+      for (let k = 0; k < perRow * perRow; k++) {
+        const c = { base: new Container(), roads: new Container(), structs: new Container() };
+        base.addChild(c.base); roads.addChild(c.roads); structs.addChild(c.structs);
+        chunks.push(c);
+      }
 
-      let scale = 1;
+      // Show only chunks overlapping the viewport (one extra chunk up/left for buildings spilling over)
+      const cull = () => {
+        const span = CHUNK * tileSize;
+        const tl = world.toLocal({ x: 0, y: 0 }), br = world.toLocal({ x: app.screen.width, y: app.screen.height });
+        const x0 = Math.floor(tl.x / span) - 1, y0 = Math.floor(tl.y / span) - 1;
+        const x1 = Math.floor(br.x / span), y1 = Math.floor(br.y / span);
+        chunks.forEach((c, k) => {
+          const cx = k % perRow, cy = Math.floor(k / perRow);
+          c.base.visible = c.roads.visible = c.structs.visible = cx >= x0 && cx <= x1 && cy >= y0 && cy <= y1;
+        });
+      };
+
+      // ---- Camera: keep the grid on screen, zoom around a point
+      const clampAxis = (pos: number, view: number, content: number) =>
+        content + 2 * PAN_MARGIN <= view ? (view - content) / 2 : Math.min(PAN_MARGIN, Math.max(view - content - PAN_MARGIN, pos));
+      const moved = () => {
+        const z = world.scale.x;
+        world.x = clampAxis(world.x, app.screen.width, size * tileSize * z);
+        world.y = clampAxis(world.y, app.screen.height, size * tileSize * z);
+        cull();
+        drawMinimapRef.current();
+      };
+      const zoomAt = (sx: number, sy: number, z: number) => {
+        z = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, z));
+        const p = world.toLocal({ x: sx, y: sy });
+        world.scale.set(z);
+        world.x = sx - p.x * z; world.y = sy - p.y * z;
+        moved();
+      };
+      const lookAt = (x: number, y: number) => {
+        const z = world.scale.x;
+        world.x = app.screen.width / 2 - x * z; world.y = app.screen.height / 2 - y * z;
+        moved();
+      };
+
+      sceneRef.current = {
+        world, chunks, perRow, lookAt,
+        bg: new Array(size * size).fill(null),
+        terrain: new Array(size * size).fill(null),
+        buildings: new Map(),
+        prev: null,
+        prevInactive: new Set(),
+        cull,
+      };
+
+      // ---- Camera input: wheel & keyboard
+      // keys aimed at a form control or editable text are theirs (Space presses a focused button)
+      const forControl = (ev: Event) => {
+        const el = ev.target as HTMLElement | null;
+        return !!el && (el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT', 'BUTTON'].includes(el.tagName));
+      };
+      let spaceHeld = false;
+
+      // wheel zooms around the cursor
       app.canvas.addEventListener('wheel', (ev: WheelEvent) => {
-        const delta = Math.sign(ev.deltaY) * -0.1;
-        scale = Math.min(2.5, Math.max(0.5, scale + delta));
-        world.scale.set(scale);
+        zoomAt(ev.offsetX, ev.offsetY, world.scale.x * (ev.deltaY < 0 ? 1.1 : 1 / 1.1));
       }, { passive: true });
 
-      // ---- Tile clicks / drag-paint
-      world.on('pointertap', (e: any) => {
-        const p = world.toLocal(e.global);
-        const x = Math.floor(p.x / tileSize), y = Math.floor(p.y / tileSize);
-        if (x>=0 && y>=0 && x<size && y<size) onClick?.(y*size + x);
+      // WASD/arrows pan, +/- zoom around the screen centre, Space held turns drags into pans (not in controls)
+      listen('keydown', ev => {
+        if (ev.ctrlKey || ev.metaKey || ev.altKey || forControl(ev)) return;
+        const k = ev.key.toLowerCase();
+        const pan: Record<string, [number, number]> = {
+          arrowleft: [1, 0], a: [1, 0], arrowright: [-1, 0], d: [-1, 0],
+          arrowup: [0, 1], w: [0, 1], arrowdown: [0, -1], s: [0, -1],
+        };
+        if (pan[k]) { world.x += pan[k][0] * KEY_PAN; world.y += pan[k][1] * KEY_PAN; moved(); }
+        else if (k === '+' || k === '=') zoomAt(app.screen.width / 2, app.screen.height / 2, world.scale.x * 1.2);
+        else if (k === '-' || k === '_') zoomAt(app.screen.width / 2, app.screen.height / 2, world.scale.x / 1.2);
+        else if (k === ' ') { spaceHeld = true; app.canvas.style.cursor = 'grab'; }
+        else return;
+        ev.preventDefault();
+      });
+      listen('keyup', ev => { if (ev.key === ' ') { spaceHeld = false; app.canvas.style.cursor = ''; } });
+      listen('blur', () => { spaceHeld = false; app.canvas.style.cursor = ''; });
+
+      // ---- Pointer gestures: click vs drag-pan vs drag-paint vs two-finger pinch
+      const pointers = new Map<number, { x: number; y: number }>();
+      let gesture: Gesture | null = null;
+      const tileUnder = (sx: number, sy: number) => {
+        const p = screenToWorld(sx, sy, { x: world.x, y: world.y, scale: world.scale.x });
+        return tileAt(p.x, p.y, tileSize, size);
+      };
+      const hoverAt = (idx: number | null) => { if (idx !== hoverIdx.current) { hoverIdx.current = idx; cbRef.current.onHover?.(idx); } };
+      const paintAt = (g: Extract<Gesture, { kind: 'paint' }>, idx: number | null) => {
+        if (idx !== null && idx !== g.last) cbRef.current.onDrag?.(idx);
+        g.last = idx;
+      };
+      const endGesture = (next: Gesture | null) => {
+        if (gesture?.kind === 'paint') cbRef.current.onDragEnd?.();
+        if (gesture?.kind === 'pan') app.canvas.style.cursor = spaceHeld ? 'grab' : '';
+        gesture = next;
+      };
+      const twoFingers = () => {
+        const [a, b] = [...pointers.values()];
+        return { dist: Math.hypot(a.x - b.x, a.y - b.y) || 1, mx: (a.x + b.x) / 2, my: (a.y + b.y) / 2 };
+      };
+
+      const canvas = app.canvas;
+      canvas.style.touchAction = 'none';   // we do our own touch panning/zooming
+      canvas.addEventListener('contextmenu', ev => ev.preventDefault());
+      canvas.addEventListener('pointerdown', (ev: PointerEvent) => {
+        pointers.set(ev.pointerId, { x: ev.offsetX, y: ev.offsetY });
+        canvas.setPointerCapture(ev.pointerId);
+        if (pointers.size === 2) { endGesture({ kind: 'pinch', ...twoFingers() }); return; }
+        if (pointers.size > 2 || gesture) return;
+        const pan = ev.button === 1 || ev.button === 2 || spaceHeld || !cbRef.current.paintTool;
+        if (ev.button > 2 || (ev.button > 0 && ev.pointerType !== 'mouse')) return;
+        gesture = { kind: 'press', id: ev.pointerId, sx: ev.offsetX, sy: ev.offsetY, pan };
       });
-      world.on('pointermove', (e: any) => {
-        if (!onDrag || !dragging.current.down) return;
-        const p = world.toLocal(e.global);
-        const x = Math.floor(p.x / tileSize), y = Math.floor(p.y / tileSize);
-        if (x>=0 && y>=0 && x<size && y<size) onDrag(y*size + x);
+      canvas.addEventListener('pointermove', (ev: PointerEvent) => {
+        const x = ev.offsetX, y = ev.offsetY;
+        if (ev.pointerType === 'mouse' || pointers.size <= 1) hoverAt(tileUnder(x, y));
+        if (!pointers.has(ev.pointerId)) return;
+        pointers.set(ev.pointerId, { x, y });
+        const g = gesture;
+        if (!g) return;
+        if (g.kind === 'pinch') {
+          if (pointers.size < 2) return;
+          const now = twoFingers();
+          world.x += now.mx - g.mx; world.y += now.my - g.my;
+          zoomAt(now.mx, now.my, world.scale.x * now.dist / g.dist);
+          Object.assign(g, now);
+          return;
+        }
+        if (g.kind === 'spent' || g.id !== ev.pointerId) return;
+        if (g.kind === 'press') {
+          if (Math.hypot(x - g.sx, y - g.sy) < DRAG_SLOP) return;
+          if (g.pan) {
+            gesture = { kind: 'pan', id: g.id, lx: g.sx, ly: g.sy };
+            canvas.style.cursor = 'grabbing';
+          } else {
+            const paint = { kind: 'paint' as const, id: g.id, last: null };
+            gesture = paint;
+            paintAt(paint, tileUnder(g.sx, g.sy));   // the press tile is part of the stroke
+          }
+        }
+        const cur = gesture!;
+        if (cur.kind === 'pan') {
+          world.x += x - cur.lx; world.y += y - cur.ly;
+          cur.lx = x; cur.ly = y;
+          moved();
+        } else if (cur.kind === 'paint') paintAt(cur, tileUnder(x, y));
       });
+      const lift = (ev: PointerEvent, cancelled: boolean) => {
+        if (!pointers.delete(ev.pointerId)) return;
+        const g = gesture;
+        if (g?.kind === 'press' && g.id === ev.pointerId) {
+          gesture = null;
+          const idx = tileUnder(g.sx, g.sy);
+          if (!cancelled && ev.button === 0 && idx !== null) cbRef.current.onClick?.(idx);
+        } else if (g && g.kind !== 'spent' && (g.kind === 'pinch' || g.id === ev.pointerId)) {
+          endGesture(pointers.size ? { kind: 'spent' } : null);   // a finger left from a pinch shouldn't click
+        }
+        if (!pointers.size && gesture?.kind === 'spent') gesture = null;
+      };
+      canvas.addEventListener('pointerup', ev => lift(ev, false));
+      canvas.addEventListener('pointercancel', ev => lift(ev, true));
+      canvas.addEventListener('pointerleave', () => hoverAt(null));
 
-      layersRef.current = { base, roads, structs, ghost: ghostL };
+      layersRef.current = { base, roads, overlay: overlayL, structs, ghost: ghostL };
 
       // ---- Build tile textures AFTER app exists (v8 render API)
       if (!texRef.current) {
-        const make = (gf: (size?: number) => Graphics) => {
-          const g = gf(tileSize);
+        const make = (name: string, gf: GFactory) => {
+          const g = gf(tileSize, seededStream(seed, `tex:${name}`));
           const rt = RenderTexture.create({
             width: tileSize,
             height: tileSize,
-            // @ts-ignore: resolution exists at runtime
-            resolution: (app.renderer as any).resolution || 1,
+            resolution: app.renderer.resolution,
           });
           app.renderer.render({ container: g, target: rt, clear: true });
           g.destroy(true);
@@ -185,16 +488,40 @@ export default function MapView({ tiles, size, tileSize = 28, ghost, onClick, on
         };
 
         texRef.current = {
-          meadow: make(grassG),
-          forest: make(forestG),
-          hill:   make(hillG),
-          marsh:  make(marshG),
-          thicket:make(thicketG),
-          water:  make(waterG),
-          road:   make(roadG),
-          bridge: make(bridgeG),
+          meadow: make('meadow', grassG),
+          forest: make('forest', forestG),
+          hill:   make('hill', hillG),
+          marsh:  make('marsh', marshG),
+          thicket:make('thicket', thicketG),
+          water:  make('water', waterG),
         };
 
+        // Road/bridge autotile variants, baked once into a single atlas texture
+        const variants: [string, GFactory][] = [
+          ...Array.from({ length: ROAD_MASKS }, (_, m) => [`road:${m}`, roadTileG(m)] as [string, GFactory]),
+          ...Array.from({ length: BRIDGE_CODES }, (_, c) => [`bridge:${c}`, bridgeTileG(c)] as [string, GFactory]),
+        ];
+        const cols = 16, rows = Math.ceil(variants.length / cols);
+        const sheet = new Container();
+        variants.forEach(([name, gf], k) => {
+          const g = gf(tileSize, seededStream(seed, `tex:${name}`));
+          g.position.set((k % cols) * tileSize, Math.floor(k / cols) * tileSize);
+          sheet.addChild(g);
+        });
+        const atlas = RenderTexture.create({
+          width: cols * tileSize,
+          height: rows * tileSize,
+          resolution: app.renderer.resolution,
+        });
+        app.renderer.render({ container: sheet, target: atlas, clear: true });
+        sheet.destroy({ children: true });
+        variants.forEach(([name], k) => {
+          texRef.current![name] = new Texture({
+            source: atlas.source,
+            frame: new Rectangle((k % cols) * tileSize, Math.floor(k / cols) * tileSize, tileSize, tileSize),
+          });
+        });
+
         setReadyBump(v => v + 1); // trigger draw effect
       }
 
@@ -202,72 +529,185 @@ export default function MapView({ tiles, size, tileSize = 28, ghost, onClick, on
       const fit = () => {
         const w = host.clientWidth || 300;
         const h = host.clientHeight || 300;
-        const r: any = app.renderer as any;
-        try { r.resize({ width: w, height: h }); } catch { r.resize(w, h); }
+        app.renderer.resize(w, h);
+        moved();
       };
       fit();
+      if (homeRef.current != null) {
+        const i = homeRef.current;
+        lookAt(((i % size) + 0.5) * tileSize, (Math.floor(i / size) + 0.5) * tileSize);
+      }
       ro = new ResizeObserver(fit);
       ro.observe(host);
     })();
 
     return () => {
+      cancelled = true;
       ro?.disconnect();
-      if (appRef.current) appRef.current.destroy(true);
+      unlisten.forEach(off => off());
+      if (appRef.current) appRef.current.destroy(true, { children: true });
       appRef.current = null;
       layersRef.current = null;
+      sceneRef.current = null;
       texRef.current = null;
     };
-  }, [size, tileSize, onClick, onDrag]);
+  }, [size, seed, tileSize]);
 
-  // Draw (or redraw)
+  // Sync tiles & buildings: only what changed since the last draw is touched
   useEffect(() => {
-    const app = appRef.current;
-    const layers = layersRef.current;
+    const scene = sceneRef.current;
     const T = texRef.current;
-    if (!app || !layers || !T) return;
+    if (!scene || !T) return;
 
-    const { base, roads, structs, ghost: ghostL } = layers;
-    base.removeChildren(); roads.removeChildren(); structs.removeChildren(); ghostL.removeChildren();
+    const { chunks, perRow, bg, terrain, buildings, prev } = scene;
+    const chunkOf = (i: number) => chunks[Math.floor((i / size) / CHUNK) * perRow + Math.floor((i % size) / CHUNK)];
+    const origins = new Set<number>();   // buildings to re-check
+    const retile = new Set<number>();    // road/bridge tiles whose autotile variant may have changed
+
+    // Index of the neighbour of i in direction d, or -1 off the grid
+    const step = (i: number, d: number) => {
+      const x = i % size, y = Math.floor(i / size);
+      const [nx, ny] = d === N ? [x, y - 1] : d === E ? [x + 1, y] : d === S ? [x, y + 1] : [x - 1, y];
+      return nx >= 0 && ny >= 0 && nx < size && ny < size ? ny * size + nx : -1;
+    };
+    const isWay = (j: number) => j >= 0 && (tiles[j].terrain === 'road' || tiles[j].terrain === 'bridge');
+    const variant = (i: number) => {
+      if (tiles[i].terrain === 'road') {
+        return T[`road:${[N, E, S, W].reduce((m, d) => isWay(step(i, d)) ? m | d : m, 0)}`];
+      }
+      const side = (d: number) => { const j = step(i, d); return j < 0 ? 0 : tiles[j].terrain === 'bridge' ? 1 : tiles[j].terrain === 'road' ? 2 : 0; };
+      return T[`bridge:${side(N) + 3 * side(E) + 9 * side(S) + 27 * side(W)}`];
+    };
 
     for (let i = 0; i < tiles.length; i++) {
-      const t = tiles[i];
+      const t = tiles[i], old = prev?.[i];
+      if (old === t) continue;
       const x = (i % size) * tileSize;
       const y = Math.floor(i / size) * tileSize;
+      const chunk = chunkOf(i);
 
       // biome tile
-      const bg = new Sprite(T[t.biome] || T.meadow);
-      bg.x = x; bg.y = y; base.addChild(bg);
+      if (!bg[i]) { const s = new Sprite(); s.x = x; s.y = y; chunk.base.addChild(s); bg[i] = s; }
+      bg[i]!.texture = T[t.biome] || T.meadow;
 
-      // overlays
-      if (t.terrain === 'water')      { const w = new Sprite(T.water);  w.x=x; w.y=y; base.addChild(w); }
-      else if (t.terrain === 'road')  { const r = new Sprite(T.road);   r.x=x; r.y=y; roads.addChild(r); }
-      else if (t.terrain === 'bridge'){ const b = new Sprite(T.bridge); b.x=x; b.y=y; roads.addChild(b); }
+      // overlays (water sits with the biome tiles, roads/bridges on their own layer)
+      if (old?.terrain !== t.terrain) {
+        terrain[i]?.destroy(); terrain[i] = null;
+        if (t.terrain !== 'grass') {
+          const s = new Sprite(t.terrain === 'water' ? T.water : undefined); s.x = x; s.y = y;
+          (t.terrain === 'water' ? chunk.base : chunk.roads).addChild(s);
+          terrain[i] = s;
+        }
+        // this tile and its neighbours may need a different road/bridge variant
+        retile.add(i);
+        [N, E, S, W].forEach(d => { const j = step(i, d); if (j >= 0) retile.add(j); });
+      }
+
+      if (old?.structure) origins.add(old.structure.origin);
+      if (t.structure) origins.add(t.structure.origin);
     }
 
+    retile.forEach(j => {
+      if (isWay(j) && terrain[j]) terrain[j]!.texture = variant(j);
+    });
+
+    // Buildings whose inactive flag flipped
+    const inactiveNow = inactive ?? new Set<number>();
+    scene.prevInactive.forEach(o => { if (!inactiveNow.has(o)) origins.add(o); });
+    inactiveNow.forEach(o => { if (!scene.prevInactive.has(o)) origins.add(o); });
+
     // Draw buildings once from their anchor tile as a single piece
-    for (let i = 0; i < tiles.length; i++){
-      const t = tiles[i]; if (!t.structure || !t.structure.anchor) continue;
-      const x = (i % size) * tileSize;
-      const y = Math.floor(i / size) * tileSize;
-      const wpx = t.structure.w * tileSize;
-      const hpx = t.structure.h * tileSize;
-      const b = paintBuilding(t.structure.id, wpx, hpx);
-      b.position.set(x, y);
-      layers.structs.addChild(b);
+    origins.forEach(i => {
+      const s = tiles[i]?.structure;
+      const key = s && s.anchor && s.origin === i ? `${s.id}:${s.level}:${s.w}x${s.h}:${inactiveNow.has(i)}` : '';
+      const have = buildings.get(i);
+      if (have?.key === key) return;
+      if (have) { have.g.destroy(); buildings.delete(i); }
+      if (!s || !key) return;
+
+      const wpx = s.w * tileSize;
+      const hpx = s.h * tileSize;
+      const b = paintBuilding(s.id, wpx, hpx, seededStream(seed, `bldg:${i}`), s.level);
+      if (inactiveNow.has(i)) {
+        // dim it and hang a little warning badge
+        b.rect(0, 0, wpx, hpx).fill({ color: 0x0f172a, alpha: 0.45 });
+        b.circle(wpx - 7, 7, 5).fill(0xef4444).stroke({ color: 0xffffff, width: 1 });
+      }
+      b.position.set((i % size) * tileSize, Math.floor(i / size) * tileSize);
+      chunkOf(i).structs.addChild(b);
+      buildings.set(i, { g: b, key });
+    });
+
+    scene.prev = tiles;
+    scene.prevInactive = inactiveNow;
+    scene.cull();
+  }, [tiles, size, seed, tileSize, inactive, readyBump]);
+
+  // Minimap terrain image (cheap: one pixel per tile)
+  useEffect(() => {
+    if (!miniTerrain.current || miniTerrain.current.width !== size) {
+      miniTerrain.current = document.createElement('canvas');
+      miniTerrain.current.width = miniTerrain.current.height = size;
     }
+    const ctx = miniTerrain.current.getContext('2d');
+    if (!ctx) return;
+    const img = ctx.createImageData(size, size);
+    tiles.forEach((t, i) => {
+      const [r, g, b] = miniColor(t, SEASON_TINT[season]);
+      img.data.set([r, g, b, 255], i * 4);
+    });
+    ctx.putImageData(img, 0, 0);
+    drawMinimap();
+  }, [tiles, size, season]);
+
+  // Season tint over the biome and water tiles (the chunk base layers)
+  useEffect(() => {
+    sceneRef.current?.chunks.forEach(c => { c.base.tint = SEASON_TINT[season]; });
+  }, [season, readyBump]);
 
+  // Tint overlay (e.g. local happiness), one Graphics for the whole grid
+  useEffect(() => {
+    const layers = layersRef.current;
+    if (!layers) return;
+    layers.overlay.removeChildren().forEach(c => c.destroy());
+    if (!overlay) return;
+    const g = new Graphics();
+    overlay.forEach((v, i) => {
+      if (!v) return;
+      g.rect((i % size) * tileSize, Math.floor(i / size) * tileSize, tileSize, tileSize)
+        .fill({ color: v > 0 ? 0x4ade80 : 0xf87171, alpha: Math.min(0.55, Math.abs(v) * 0.55) });
+    });
+    layers.overlay.addChild(g);
+  }, [overlay, size, tileSize, readyBump]);
+
+  // Ghost on its own layer so hovering doesn't repaint the map
+  useEffect(() => {
+    const layers = layersRef.current;
+    if (!layers) return;
+    layers.ghost.removeChildren().forEach(c => c.destroy());
+    const color = ghostValid ? 0x69d6a6 : 0xf87171;
     if (ghost && ghost.length) {
       ghost.forEach((ii) => {
         const x = (ii % size) * tileSize, y = Math.floor(ii / size) * tileSize;
         const g = new Graphics()
           .roundRect(x + 1, y + 1, tileSize - 2, tileSize - 2, 6)
-          .fill({ color: 0x69d6a6, alpha: 0.25 })
-          .stroke({ color: 0x69d6a6, width: 2, alpha: 0.4 });
+          .fill({ color, alpha: 0.25 })
+          .stroke({ color, width: 2, alpha: 0.4 });
         layers.ghost.addChild(g);
       });
     }
-  }, [tiles, size, tileSize, ghost, readyBump]);
+  }, [ghost, ghostValid, size, tileSize, readyBump]);
 
   // Host fills its parent; parent height is set in App.tsx
-  return <div ref={hostRef} style={{ width: '100%', height: '100%' }} />;
-}
+  return (
+    <div style={{ position: 'relative', width: '100%', height: '100%' }}>
+      <div ref={hostRef} style={{ width: '100%', height: '100%' }} />
+      <canvas
+        ref={miniRef} width={MINIMAP} height={MINIMAP}
+        onPointerDown={jumpFromMinimap} onPointerMove={jumpFromMinimap}
+        style={{ position: 'absolute', right: 8, bottom: 8, width: MINIMAP, height: MINIMAP, borderRadius: 8,
+          border: '1px solid #334155', background: '#0b1220', cursor: 'crosshair', touchAction: 'none' }}
+      />
+    </div>
+  );
+});
@@ -1,58 +1,61 @@
 import { Graphics } from "pixi.js";
+import type { RNG } from "../game/rng";
+import type { Season } from "../game/seasons";
 
-export type GFactory = (size?: number) => Graphics;
+/* rnd drives the decoration scatter; pass a seeded stream so every client bakes identical tiles */
+export type GFactory = (size: number, rnd: RNG) => Graphics;
 
-export const grassG: GFactory = (size = 28) => {
+export const grassG: GFactory = (size, rnd) => {
   const g = new Graphics();
   g.roundRect(0, 0, size, size, 6).fill(0x9ecb97);
   for (let i = 0; i < 12; i++) {
-    const x = Math.random() * size, y = Math.random() * size;
+    const x = rnd() * size, y = rnd() * size;
     g.moveTo(x, y).lineTo(x + 2, y + 3).stroke({ color: 0x6fa974, width: 1, alpha: 0.5 });
   }
   return g;
 };
 
-export const forestG: GFactory = (size = 28) => {
+export const forestG: GFactory = (size, rnd) => {
   const g = new Graphics();
   g.roundRect(0, 0, size, size, 6).fill(0x8ab886);
   for (let i = 0; i < 8; i++) {
-    const x = Math.random() * size, y = Math.random() * size, r = 2 + Math.random() * 3;
+    const x = rnd() * size, y = rnd() * size, r = 2 + rnd() * 3;
     g.circle(x, y, r).fill({ color: 0x4d7a4f, alpha: 0.35 });
   }
   return g;
 };
 
-export const hillG: GFactory = (size = 28) => {
+export const hillG: GFactory = (size, rnd) => {
   const g = new Graphics();
   g.roundRect(0, 0, size, size, 6).fill(0xa6c49f);
   for (let i = 0; i < 6; i++) {
-    const x = Math.random() * size, y = Math.random() * size;
+    const x = rnd() * size, y = rnd() * size;
     g.rect(x, y, 2, 2).fill(0x7f8b7b);
   }
   return g;
 };
 
-export const marshG: GFactory = (size = 28) => {
+export const marshG: GFactory = (size, rnd) => {
   const g = new Graphics();
   g.roundRect(0, 0, size, size, 6).fill(0x8bb5a2);
   for (let i = 0; i < 5; i++) {
-    const x = Math.random() * size, y = Math.random() * size;
+    const x = rnd() * size, y = rnd() * size;
     g.ellipse(x, y, 3, 1).fill({ color: 0x5a9785, alpha: 0.4 });
   }
   return g;
 };
 
-export const thicketG: GFactory = (size = 28) => {
+export const thicketG: GFactory = (size, rnd) => {
   const g = new Graphics();
   g.roundRect(0, 0, size, size, 6).fill(0x6a9367);
   for (let i = 0; i < 9; i++) {
-    const x = Math.random() * size, y = Math.random() * size;
+    const x = rnd() * size, y = rnd() * size;
     g.rect(x, y, 3, 3).fill({ color: 0x2e5c32, alpha: 0.55 });
   }
   return g;
 };
 
-export const waterG: GFactory = (size = 28) => {
+export const waterG: GFactory = (size, rnd) => {
   const g = new Graphics();
   g.roundRect(0, 0, size, size, 6).fill(0x78b7e6);
   for (let i = 0; i < 4; i++) {
@@ -63,17 +66,78 @@ export const waterG: GFactory = (size = 28) => {
   return g;
 };
 
-export const roadG: GFactory = (size = 28) => {
+/* ---- Road & bridge autotiles ----
+   Roads pick a variant from the 4-neighbour mask (N=1, E=2, S=4, W=8): isolated, dead-end,
+   straight, corner, T and cross all fall out of which arms are drawn. Bridges encode each side
+   as 0 (open), 1 (more bridge) or 2 (road, so an abutment): code = n + 3e + 9s + 27w. */
+
+export const N = 1, E = 2, S = 4, W = 8;
+export const ROAD_MASKS = 16;
+export const BRIDGE_CODES = 81;
+
+const ROAD = 0x6b5743, ROAD_STONE = 0x8e7760;
+
+export const roadTileG = (mask: number): GFactory => (size, rnd) => {
   const g = new Graphics();
-  g.roundRect(0, 0, size, size, 6).fill(0x6b5743);
-  const cx = size / 2 - 1;
-  for (let y = 4; y < size - 4; y += 6) g.rect(cx, y, 2, 3).fill({ color: 0x8e7760, alpha: 0.7 });
+  const w = Math.round(size * 0.56), o = (size - w) / 2, c = size / 2;
+  const arms = [N, E, S, W].filter(d => mask & d).length;
+
+  // pad + one arm per connected side (dead ends keep the rounded pad as a cap)
+  g.roundRect(o, o, w, w, arms ? 3 : 6).fill(ROAD);
+  if (mask & N) g.rect(o, 0, w, c).fill(ROAD);
+  if (mask & S) g.rect(o, c, w, size - c).fill(ROAD);
+  if (mask & E) g.rect(c, o, size - c, w).fill(ROAD);
+  if (mask & W) g.rect(0, o, c, w).fill(ROAD);
+
+  // dashed centre line along each arm
+  const dash = { color: ROAD_STONE, alpha: 0.7 };
+  if (mask & N) for (let y = 1; y < c - 3; y += 6) g.rect(c - 1, y, 2, 3).fill(dash);
+  if (mask & S) for (let y = c + 4; y < size - 1; y += 6) g.rect(c - 1, y, 2, 3).fill(dash);
+  if (mask & W) for (let x = 1; x < c - 3; x += 6) g.rect(x, c - 1, 3, 2).fill(dash);
+  if (mask & E) for (let x = c + 4; x < size - 1; x += 6) g.rect(x, c - 1, 3, 2).fill(dash);
+
+  // junctions get a cobbled centre; a few loose pebbles everywhere
+  if (arms >= 3) g.circle(c, c, w * 0.32).fill({ color: ROAD_STONE, alpha: 0.55 });
+  for (let i = 0; i < 3; i++) g.circle(o + rnd() * w, o + rnd() * w, 0.8).fill({ color: 0x4a3b2d, alpha: 0.6 });
   return g;
 };
 
-export const bridgeG: GFactory = (size = 28) => {
+export const bridgeTileG = (code: number): GFactory => (size, rnd) => {
   const g = new Graphics();
-  g.roundRect(0, 0, size, size, 6).fill(0x8a6a4f);
-  for (let y = 3; y < size - 3; y += 5) g.rect(3, y, size - 6, 2).fill({ color: 0xb48e6e, alpha: 0.85 });
+  const side = [code % 3, Math.floor(code / 3) % 3, Math.floor(code / 9) % 3, Math.floor(code / 27) % 3]; // n, e, s, w
+  const vertical = side[1] === 0 && side[3] === 0 ? true : side[0] === 0 && side[2] === 0 ? false : null; // null: crossing
+  const deck = 0x8a6a4f, plank = { color: 0xb48e6e, alpha: 0.85 }, rail = 0x5b4330;
+
+  if (vertical !== false) {
+    // deck runs N–S: planks across, rails down both sides
+    g.rect(3, 0, size - 6, size).fill(deck);
+    for (let y = 2; y < size - 1; y += 5) g.rect(4, y, size - 8, 2).fill(plank);
+    g.rect(2, 0, 2, size).fill(rail); g.rect(size - 4, 0, 2, size).fill(rail);
+  }
+  if (vertical !== true) {
+    g.rect(0, 3, size, size - 6).fill(deck);
+    for (let x = 2; x < size - 1; x += 5) g.rect(x, 4, 2, size - 8).fill(plank);
+    g.rect(0, 2, size, 2).fill(rail); g.rect(0, size - 4, size, 2).fill(rail);
+  }
+
+  // stone abutments where the span meets a road
+  const stone = 0x8e8e8e, a = 5;
+  if (side[0] === 2) g.roundRect(1, 0, size - 2, a, 2).fill(stone);
+  if (side[2] === 2) g.roundRect(1, size - a, size - 2, a, 2).fill(stone);
+  if (side[3] === 2) g.roundRect(0, 1, a, size - 2, 2).fill(stone);
+  if (side[1] === 2) g.roundRect(size - a, 1, a, size - 2, 2).fill(stone);
+
+  // a knot or two in the wood
+  g.circle(4 + rnd() * (size - 8), 4 + rnd() * (size - 8), 0.8).fill({ color: rail, alpha: 0.6 });
   return g;
 };
+
+/* ---- Seasons ----
+   Multiplied over the baked terrain tiles above, so the palettes shift with the season without
+   re-baking: fresh greens in spring, amber in autumn, a cold blue-grey in winter. */
+export const SEASON_TINT: Record<Season, number> = {
+  spring: 0xf0fff0,
+  summer: 0xffffff,
+  autumn: 0xffd8a0,
+  winter: 0xd6e2f0,
+};